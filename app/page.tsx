@@ -1,12 +1,21 @@
 "use client";
 
+import { useEffect, useState } from 'react';
 import InvestmentCalculator from '../components/Chart';
+import { readShareStateFromHash, SharedState } from '@/lib/shareState';
 
 export default function Page() {
+  // The hash is only available in the browser, so a shared link is read after mount.
+  const [sharedState, setSharedState] = useState<SharedState | null>(null);
+
+  useEffect(() => {
+      setSharedState(readShareStateFromHash(window.location.hash));
+  }, []);
+
   return (
       <main className="bg-gray-50 min-h-screen">
           <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
-              <InvestmentCalculator />
+              <InvestmentCalculator sharedState={sharedState} />
           </div>
       </main>
   );
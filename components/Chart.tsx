@@ -1,252 +1,221 @@
 'use client';
-import React, { useState, useMemo } from 'react';
-import ParametersPanel from './ParametersPanel';
+import React, { useState, useMemo, useEffect } from 'react';
+import ParametersPanel, { ContributionTiming, LumpSum, ProjectionMethod, ReturnModel, TimeStep } from './ParametersPanel';
 import ProjectionChart from './ProjectionChart';
 import ProjectionTable from './ProjectionTable';
 import Portfolio, { Position } from './Portfolio';
-import jStat from 'jstat';
+import TaxPanel from './TaxPanel';
+import CorrelationMatrixPanel from './CorrelationMatrixPanel';
+import GoalsPanel, { Goal, GoalEvaluation } from './GoalsPanel';
+import ScenariosPanel from './ScenariosPanel';
+import HistoricalReturnsPanel from './HistoricalReturnsPanel';
+import CompliancePanel from './CompliancePanel';
+import GlidePathPanel from './GlidePathPanel';
+import RebalancingPanel from './RebalancingPanel';
+import SensitivityPanel from './SensitivityPanel';
+import StressTestPanel, { StressTestResult } from './StressTestPanel';
+import { applyContributionSplit, calculateTax, suggestContributionSplit } from '@/lib/tax';
+import { calculatePortfolioVolatility, CorrelationMatrix, DEFAULT_CORRELATIONS, positionVolatility } from '@/lib/risk';
+import { createScenarioId, loadScenarios, saveScenarios, Scenario, ScenarioInputs } from '@/lib/scenarios';
+import { buildShareUrl, SharedState } from '@/lib/shareState';
+import { BootstrapMethod, HistoricalReturns, toBootstrapInput } from '@/lib/historicalReturns';
+import { checkFundCompliance } from '@/lib/compliance';
+import { BUILT_IN_FUND_CATALOG, CatalogFund } from '@/lib/fundCatalog';
+import { allocationSchedule, canFollowGlidePath, DEFAULT_GLIDE_PATH, GlidePath, glidePathReturns } from '@/lib/glidePath';
+import { REBALANCING_POLICIES, simulateMultiAsset } from '@/lib/rebalancing';
+import { downloadExport, ExportFormat, exportTables } from '@/lib/export';
+import { PRESET_STRESS_SCENARIOS, StressScenario, stressedGrossReturns, stressPath, stressShortfall } from '@/lib/stress';
+import { DEFAULT_SENSITIVITY_DELTAS, Projector, SensitivityDeltas, SensitivityInput, sensitivityHeatmap, sensitivityTornado } from '@/lib/sensitivity';
+import {
+    BootstrapInput,
+    calculateInvestmentProjection,
+    calculateMonteCarloProjection,
+    CentralLine,
+    contributionYears,
+    DEFAULT_FAN_PERCENTILES,
+    deflatorParams,
+    MonteCarloInput,
+    ProjectionFees,
+    ProjectionInput,
+    ProjectionOutput,
+    ProjectionSummary,
+    requiresSimulation,
+    toRealTerms,
+} from '@/lib/projection';
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 
-// --- TYPE DEFINITIONS --- //
-
-/**
- * Input parameters for the investment projection calculation.
- */
-interface ProjectionInput {
-    investment: number;       // Annual mutual fund investment amount in THB
-    age: number;              // Current age of the user
-    projectionYears: number;  // Number of years to project into the future
-    expectedReturn: number;   // Annual expected return (e.g., 0.06 for 6%)
-    volatility: number;       // Annual volatility (e.g., 0.10 for 10%)
-    percentile: number;       // Percentile for best/worst case (e.g., 10 for 10th/90th)
-    lumpSumInvestment: number; // One-time lump sum invested at the start (year 1)
-}
-
-/**
- * The calculated data structure for a single year of the projection.
- */
-interface YearlyData {
-    year: number;
-    age: number;
-    investment: number;         // Annual investment for this specific year
-    lumpSum: number;            // Lump sum applied in this year (only non-zero in year 1)
-    totalAnnualInvestment: number; // Accumulated annual investments up to this year
-    totalLumpSumInvestment: number; // Accumulated lump sum up to this year (constant after year 1)
-    totalInvestment: number;    // Accumulated total (annual + lump sum) up to this year (kept for backward compatibility)
-    projection: number;         // The median projected portfolio value
-    worstCase: number;          // The worst case projection for this year
-    bestCase: number;           // The best case projection for this year
-    investmentReturn: number;   // Total return, including capital gains
-    medianCase?: number;        // Optional: median under shared-Z evaluation
-}
-
-/**
- * Summary statistics for the entire projection period.
- */
-interface ProjectionSummary {
-    committedAnnualInvestment: number;
-    baseCAGR: number;
-    lastYearInvestmentValue: number;
-}
-
-/**
- * The combined output of the calculation, including yearly data and summary metrics.
- */
-interface ProjectionOutput {
-    yearlyData: YearlyData[];
-    summary: ProjectionSummary;
-}
-
-
 // --- PORTFOLIO METRICS CALCULATION --- //
 /**
  * Calculates portfolio-level metrics from a list of positions.
  * In a real application, this might involve an API call for sophisticated calculations.
  * @param {Position[]} positions - An array of investment positions.
+ * @param {CorrelationMatrix} correlations - Asset class correlations used for the portfolio volatility.
  * @returns {{investment: number, expectedReturn: number, volatility: number}} - The calculated metrics.
  */
-const calculatePortfolioMetrics = (positions: Position[]) => {
+const calculatePortfolioMetrics = (positions: Position[], correlations: CorrelationMatrix) => {
     const investment = positions.reduce((acc, pos) => acc + pos.investmentAmount, 0);
 
     const weightedReturn = positions.reduce((acc, pos) => acc + pos.investmentAmount * (pos.expectedReturn / 100), 0);
 
     const expectedReturn = investment === 0 ? 0 : weightedReturn / investment;
 
-    // As per current requirements, volatility is a fixed value.
-    // In a real scenario, this would be a sophisticated calculation based on the portfolio composition.
-    const volatility = 0.15; // 15%
+    // Weighted portfolio volatility sqrt(w'Σw) from per-position volatilities and class correlations.
+    const volatility = calculatePortfolioVolatility(positions, correlations);
 
     return { investment, expectedReturn, volatility };
 };
 
-// --- CORE CALCULATION LOGIC --- //
 /**
- * Calculates investment projections based on user inputs.
- * This function is pure and has no side effects.
- *
- * @param {ProjectionInput} params - The input parameters for the calculation.
- * @returns {ProjectionOutput} An object containing both the detailed yearly data and summary metrics.
+ * Portfolio-level fees as decimals, each position's charge weighted by its investment amount.
+ * Positions keep their own front load on their contributions; this average applies to lump sums.
+ * @param {Position[]} positions - An array of investment positions.
+ * @returns {ProjectionFees} The weighted expense ratio and loads.
  */
-const calculateInvestmentProjection = (params: ProjectionInput): ProjectionOutput => {
-    const {
-        investment,
-        age,
-        projectionYears,
-        expectedReturn,
-        volatility,
-        percentile,
-        lumpSumInvestment,
-    } = params;
-
-    const results: YearlyData[] = [];
-    let cumulativeAnnualInvestment = 0;
-    let cumulativeLumpSumInvestment = 0;
-
-    // This helper function implements the closed-form lognormal approximation.
-    const getLognormalDistributionParams = (C: number, N: number, mu: number, sigma: number) => {
-        if (N === 0 || C === 0) return { logMu: Math.log(C || 1), logSigma: 0 };
-
-        const m = 1 + mu;
-        const A = m ** 2 + sigma ** 2;
-
-        // Mean of W (Future Value of an Ordinary Annuity)
-        const E = mu === 0 ? C * N : C * (Math.pow(m, N) - 1) / mu;
-
-        // Second moment of W
-        const S = (Math.pow(A, N) - 1) / (A - 1);
-        let T = 0;
-        for (let p = 1; p < N; p++) {
-            T += Math.pow(m, p) * ((Math.pow(A, N - p) - 1) / (A - 1));
-        }
-        const second_moment = C ** 2 * (S + 2 * T);
-
-        // Variance of W
-        let V = second_moment - E ** 2;
-        if (V < 0) V = 0; // Clamp due to potential floating point inaccuracies
-
-        // Lognormal approximation parameters
-        const sigma_w2 = Math.log(1 + V / E ** 2);
-        const logSigma = Math.sqrt(sigma_w2);
-        const logMu = Math.log(E) - 0.5 * sigma_w2;
-
-        return { logMu, logSigma };
+const calculatePortfolioFees = (positions: Position[]): ProjectionFees => {
+    const investment = positions.reduce((acc, pos) => acc + pos.investmentAmount, 0);
+    const weighted = (fee: (pos: Position) => number | undefined) => investment === 0
+        ? 0
+        : positions.reduce((acc, pos) => acc + pos.investmentAmount * ((fee(pos) ?? 0) / 100), 0) / investment;
+    return {
+        expenseRatio: weighted((pos) => pos.expenseRatio),
+        frontLoad: weighted((pos) => pos.frontLoad),
+        backLoad: weighted((pos) => pos.backLoad),
     };
+};
 
-    // --- SHARED-Z FAN QUANTILES HELPERS --- //
-    const zOf = (p: number) => jStat.normal.inv(p, 0, 1);
-    function totalQuantilesForYear(
-        annLogMu: number, annLogSigma: number,
-        lumpLogMu: number, lumpLogSigma: number,
-        percentiles: number[]
-    ): Record<number, number> {
-        const out: Record<number, number> = {};
-        for (const p of percentiles) {
-            const z = zOf(p); // assume coeff = 1 -> shared Z (comonotonic)
-            const annQ = Math.exp(annLogMu + z * annLogSigma);
-            const lumpQ = Math.exp(lumpLogMu + z * lumpLogSigma);
-            out[p] = annQ + lumpQ;
-        }
-        return out;
+// --- GOAL EVALUATION --- //
+const GOAL_AMOUNT_STEP = 1_000; // Required amounts are solved to the nearest 1,000 THB
+const GOAL_EVALUATION_DELAY_MS = 300; // Goals are re-solved once the inputs stop changing
+/**
+ * Smallest non-negative amount for which `meets` holds, assuming `meets` is monotone.
+ * Expands an upper bracket by doubling, then bisects to the nearest `GOAL_AMOUNT_STEP`.
+ * @returns {number | null} The amount rounded up to `GOAL_AMOUNT_STEP`, or null when no bracket is found.
+ */
+const solveMinimumAmount = (meets: (x: number) => boolean, initial: number): number | null => {
+    if (meets(0)) return 0;
+    let hi = Math.max(initial, 10_000);
+    for (let expansions = 0; !meets(hi); expansions++) {
+        if (expansions >= 40) return null;
+        hi *= 2;
     }
-
-    // Lump sum future value approximation as lognormal using first and second moments.
-    // Future Value after N years with per-year mean mu and std sigma:
-    // E[S_N] = L * (1+mu)^N,  E[S_N^2] = L^2 * ( (1+mu)^2 + sigma^2 )^N
-    // Then approximate lognormal parameters from mean/variance.
-    const getLumpSumDistributionParams = (L: number, N: number, mu: number, sigma: number) => {
-        if (L === 0) return { logMu: Math.log(1), logSigma: 0 };
-        if (N <= 0) return { logMu: Math.log(L), logSigma: 0 };
-        const m = 1 + mu;
-        const A = m ** 2 + sigma ** 2;
-        const E = L * Math.pow(m, N);
-        const secondMoment = L ** 2 * Math.pow(A, N);
-        let V = secondMoment - E ** 2;
-        if (V < 0) V = 0;
-        const sigma_w2 = Math.log(1 + V / (E ** 2));
-        const logSigma = Math.sqrt(sigma_w2);
-        const logMu = Math.log(E) - 0.5 * sigma_w2;
-        return { logMu, logSigma };
-    };
-
-    for (let year = 1; year <= projectionYears; year++) {
-        let projectionValue, worstValue, topValue, totalReturn;
-
-        // Lump sum only applied in year 1
-        const lumpSumThisYear = year === 1 ? lumpSumInvestment : 0;
-
-        if (year === 1) {
-            // Year 1: Apply lump sum plus first annual contribution, no returns yet
-            projectionValue = lumpSumThisYear + investment;
-            worstValue = projectionValue;
-            topValue = projectionValue;
-            totalReturn = 0;
-        } else {
-            // Subsequent years: Apply returns to previous year's projection and add annual contribution
-            const prevYearProjection = results[year - 2].projection;
-            projectionValue = prevYearProjection * (1 + expectedReturn) + investment;
-        }
-
-        // Track cumulative contributions separately
-        cumulativeAnnualInvestment += investment;
-        cumulativeLumpSumInvestment += lumpSumThisYear;
-
-        const totalContributed = cumulativeAnnualInvestment + cumulativeLumpSumInvestment;
-
-        // Bands via shared-Z evaluation combining annuity and lump sum
-        // 1) Params
-        const { logMu: annLogMu, logSigma: annLogSigma } = getLognormalDistributionParams(investment, year, expectedReturn, volatility);
-        const lumpYears = Math.max(0, year - 1);
-        const { logMu: lumpLogMu, logSigma: lumpLogSigma } = getLumpSumDistributionParams(lumpSumInvestment, lumpYears, expectedReturn, volatility);
-
-        // 2) Percentiles to evaluate: honor the UI knob for tails, also include middle bands
-        const pLo = Math.max(0.0001, percentile / 100);
-        const pHi = Math.min(0.9999, 1 - pLo);
-        const bandsP = [pLo, 0.25, 0.5, 0.75, pHi];
-        const q = totalQuantilesForYear(annLogMu, annLogSigma, lumpLogMu, lumpLogSigma, bandsP);
-
-        // 3) Derive worst/best/median
-        const median = q[0.5];
-        const worst = q[Math.min(...bandsP)];
-        const best = q[Math.max(...bandsP)];
-        topValue = best;
-        worstValue = worst;
-        totalReturn = projectionValue - totalContributed;
-
-        results.push({
-            year: year,
-            age: age + year - 1,
-            investment: investment,
-            lumpSum: lumpSumThisYear,
-            totalAnnualInvestment: cumulativeAnnualInvestment,
-            totalLumpSumInvestment: cumulativeLumpSumInvestment,
-            totalInvestment: totalContributed,
-            projection: projectionValue,
-            worstCase: worstValue < 0 ? 0 : worstValue,
-            bestCase: topValue,
-            investmentReturn: totalReturn,
-            medianCase: median,
-        });
+    let lo = 0;
+    while (hi - lo > GOAL_AMOUNT_STEP) {
+        const mid = 0.5 * (lo + hi);
+        if (meets(mid)) hi = mid; else lo = mid;
     }
+    return Math.ceil(hi / GOAL_AMOUNT_STEP) * GOAL_AMOUNT_STEP;
+};
 
-    // --- SUMMARY CALCULATION --- //
-    if (results.length === 0) {
-        const emptySummary: ProjectionSummary = {
-            committedAnnualInvestment: params.investment,
-            baseCAGR: 0,
-            lastYearInvestmentValue: 0,
-        };
-        return { yearlyData: [], summary: emptySummary };
+/**
+ * Probability of reaching a goal and the annual investment or extra year-1 lump sum needed to reach it
+ * with probability `confidence`. The horizon is set to the goal's target year and the goal is measured
+ * before that year's withdrawal, so a goal at the retirement age stays on the semi-analytical engine.
+ * Each candidate amount is checked against a fresh projection, a smaller Monte Carlo run only when
+ * withdrawals start before the target year.
+ *
+ * @param {ProjectionInput} params - Current projection inputs.
+ * @param {Goal} goal - The goal to evaluate.
+ * @param {number} confidence - Required probability of success (e.g., 0.8).
+ * @param {Pick<MonteCarloInput, 'numPaths' | 'seed'>} simulation - Settings used if simulation is needed.
+ * @returns {GoalEvaluation} The evaluation.
+ */
+const evaluateGoal = (
+    params: ProjectionInput,
+    goal: Goal,
+    confidence: number,
+    simulation: Pick<MonteCarloInput, 'numPaths' | 'seed'>,
+): GoalEvaluation => {
+    const targetYear = goal.targetAge - params.age + 1;
+    if (targetYear < 1) {
+        return { targetYear, probability: 0, requiredInvestment: null, requiredLumpSum: null };
     }
 
-    const lastYear = results[results.length - 1];
+    const drawdownBeforeTarget = contributionYears(params) + 1 < targetYear;
+    const probabilityFor = (overrides: Partial<ProjectionInput>) => {
+        const input = { ...params, ...overrides, projectionYears: targetYear, annualWithdrawal: drawdownBeforeTarget ? params.annualWithdrawal : 0 };
+        const output = requiresSimulation(input)
+            ? calculateMonteCarloProjection({ ...input, ...simulation, numPaths: Math.min(simulation.numPaths, 2000) })
+            : calculateInvestmentProjection(input);
+        return output.probabilityOfReaching(targetYear, goal.amount, goal.inTodaysMoney);
+    };
+
+    // Positions keep their own schedules and are scaled together to a candidate total.
+    const withInvestment = (investment: number): Partial<ProjectionInput> => ({
+        investment,
+        contributions: params.contributions && params.investment > 0
+            ? params.contributions.map((c) => ({ ...c, amount: c.amount * investment / params.investment }))
+            : undefined,
+    });
+
+    const canContribute = Math.min(targetYear, contributionYears(params)) > 0;
+    const requiredInvestment = solveMinimumAmount(
+        (investment) => (canContribute || investment === 0) && probabilityFor(withInvestment(investment)) >= confidence,
+        params.investment,
+    );
+    const requiredLumpSum = solveMinimumAmount(
+        (amount) => probabilityFor({ lumpSums: [...params.lumpSums, { label: 'Goal top-up', amount, year: 1 }] }) >= confidence,
+        goal.amount / 4,
+    );
+
+    return { targetYear, probability: probabilityFor({}), requiredInvestment, requiredLumpSum };
+};
 
-    const summary: ProjectionSummary = {
-        committedAnnualInvestment: params.investment,
-        baseCAGR: params.expectedReturn,
-        lastYearInvestmentValue: lastYear.projection,
+// --- SCENARIOS --- //
+/**
+ * Converts the UI inputs (rates in percent) into projection inputs, deriving the portfolio metrics.
+ * @param {ScenarioInputs} inputs - All user inputs.
+ * @returns {ProjectionInput} The engine inputs.
+ */
+const toProjectionInput = (inputs: ScenarioInputs): ProjectionInput => {
+    const { investment, expectedReturn, volatility } = calculatePortfolioMetrics(inputs.positions, inputs.correlations);
+    return {
+        investment,
+        age: inputs.age,
+        projectionYears: inputs.projectionYears,
+        expectedReturn,
+        volatility,
+        percentiles: inputs.percentiles,
+        lumpSums: inputs.lumpSums,
+        retirementAge: inputs.retirementAge,
+        annualWithdrawal: inputs.annualWithdrawal,
+        withdrawalGrowth: inputs.withdrawalGrowth / 100,
+        contributionGrowth: inputs.contributionGrowth / 100,
+        contributions: inputs.positions.map((pos) => ({
+            label: pos.symbol || pos.assetClass,
+            amount: pos.investmentAmount,
+            startYear: pos.startYear ?? 1,
+            endYear: pos.endYear ?? inputs.projectionYears,
+            growth: (pos.contributionGrowth ?? inputs.contributionGrowth) / 100,
+            frontLoad: (pos.frontLoad ?? 0) / 100,
+        })),
+        inflationRate: inputs.inflationRate / 100,
+        inflationVolatility: inputs.inflationVolatility / 100,
+        returnModel: inputs.returnModel,
+        timeStep: inputs.timeStep,
+        contributionTiming: inputs.contributionTiming,
+        fees: calculatePortfolioFees(inputs.positions),
+        returnPath: glidePathReturns(
+            allocationSchedule(inputs.positions, inputs.correlations, inputs.glidePath, inputs.age, inputs.projectionYears),
+            inputs.glidePath,
+        ),
     };
+};
 
-    return { yearlyData: results, summary };
+/**
+ * Projects a saved scenario with the engine it was saved with (Monte Carlo when selected or required).
+ * Historical data is not saved with scenarios, so a bootstrap scenario resamples the currently loaded series.
+ * @param {ScenarioInputs} inputs - The scenario's inputs.
+ * @param {(positions: Position[]) => BootstrapInput | undefined} bootstrapFor - Bootstrap input for a set of positions, if data is loaded.
+ * @returns {ProjectionOutput} The projection.
+ */
+const projectScenario = (inputs: ScenarioInputs, bootstrapFor: (positions: Position[]) => BootstrapInput | undefined): ProjectionOutput => {
+    const input = toProjectionInput(inputs);
+    if (inputs.projectionMethod === 'monteCarlo' || inputs.projectionMethod === 'bootstrap' || requiresSimulation(input)) {
+        const bootstrap = inputs.projectionMethod === 'bootstrap' ? bootstrapFor(inputs.positions) : undefined;
+        return calculateMonteCarloProjection({ ...input, numPaths: inputs.numPaths, seed: inputs.seed, bootstrap });
+    }
+    return calculateInvestmentProjection(input);
 };
 
 // --- SUMMARY COMPONENT --- //
@@ -255,9 +224,21 @@ const SummaryMetrics: React.FC<{ summary: ProjectionSummary; currencyFormatter:
 
     const metrics = [
         { label: "Annual Investment", value: currencyFormatter(summary.committedAnnualInvestment) },
-        { label: "Median CAGR", value: formatPercent(summary.baseCAGR) },
-        { label: "Final Value (Median)", value: currencyFormatter(summary.lastYearInvestmentValue) },
+        { label: "Expected Return", value: formatPercent(summary.baseCAGR) },
+        { label: "Final Value (Median)", value: currencyFormatter(summary.finalValues.median) },
+        { label: "Final Value (Mean)", value: currencyFormatter(summary.finalValues.mean) },
+        { label: "Final Value (At Expected Return)", value: currencyFormatter(summary.finalValues.deterministic) },
+        { label: "Real Expected Return", value: formatPercent(summary.realCAGR) },
+        { label: "Final Value (Median, Today's Money)", value: currencyFormatter(summary.realFinalValues.median) },
+        { label: "Total Fees Paid (At Expected Return)", value: currencyFormatter(summary.totalFees) },
+        { label: "Final Value Lost to Fees", value: currencyFormatter(summary.feeGap) },
     ];
+    if (summary.depletionProbability !== undefined) {
+        metrics.push(
+            { label: "Probability of Depletion", value: formatPercent(summary.depletionProbability) },
+            { label: "Worst Case Runs Out At Age", value: summary.worstCaseDepletionAge != null ? String(summary.worstCaseDepletionAge) : "Never" },
+        );
+    }
 
     return (
         <Card>
@@ -280,36 +261,327 @@ const SummaryMetrics: React.FC<{ summary: ProjectionSummary; currencyFormatter:
 
 
 const initialPositions: Position[] = [
-    { symbol: 'KKP GB', assetClass: 'Fixed Income', expectedReturn: 4, investmentAmount: 100000 },
-    { symbol: 'KKP GNP-H-SSF', assetClass: 'Global Equity', expectedReturn: 8, investmentAmount: 100000 },
+    { id: 'initial-kkp-gb', symbol: 'KKP GB', assetClass: 'Fixed Income', expectedReturn: 4, investmentAmount: 100000, volatility: 5 },
+    { id: 'initial-kkp-gnp-h-ssf', symbol: 'KKP GNP-H-SSF', assetClass: 'Global Equity', expectedReturn: 8, investmentAmount: 100000, volatility: 16 },
 ];
 
 // --- REACT COMPONENT --- //
 
-const App: React.FC = () => {
+interface AppProps {
+    sharedState?: SharedState | null; // State decoded from a share link, applied over the defaults
+}
+
+const App: React.FC<AppProps> = ({ sharedState }) => {
     // --- STATE MANAGEMENT --- //
     const [positions, setPositions] = useState<Position[]>(initialPositions);
+    const [correlations, setCorrelations] = useState<CorrelationMatrix>(DEFAULT_CORRELATIONS);
     const [age, setAge] = useState(35);
     const [projectionYears, setProjectionYears] = useState(25);
-    const [percentile, setPercentile] = useState(10); // e.g., 10 for 10th/90th percentile
-    const [lumpSumInvestment, setLumpSumInvestment] = useState<number>(1_000_000);
+    const [percentiles, setPercentiles] = useState<number[]>(DEFAULT_FAN_PERCENTILES); // Lower percentile of each fan band
+    const [lumpSums, setLumpSums] = useState<LumpSum[]>([{ label: 'Initial lump sum', amount: 1_000_000, year: 1 }]);
+    const [projectionMethod, setProjectionMethod] = useState<ProjectionMethod>('analytical');
+    const [returnModel, setReturnModel] = useState<ReturnModel>('normal');
+    const [timeStep, setTimeStep] = useState<TimeStep>('annual');
+    const [contributionTiming, setContributionTiming] = useState<ContributionTiming>('end');
+    const [glidePath, setGlidePath] = useState<GlidePath>(DEFAULT_GLIDE_PATH);
+    const [numPaths, setNumPaths] = useState(5000);
+    const [seed, setSeed] = useState(42);
+    const [retirementAge, setRetirementAge] = useState(60);
+    const [annualWithdrawal, setAnnualWithdrawal] = useState(600_000);
+    const [withdrawalGrowth, setWithdrawalGrowth] = useState(0); // % per year
+    const [contributionGrowth, setContributionGrowth] = useState(0); // % per year
+    const [inflationRate, setInflationRate] = useState(2); // % per year
+    const [inflationVolatility, setInflationVolatility] = useState(0); // % per year
+    const [isRealTerms, setIsRealTerms] = useState(false);
+    const [isAge, setIsAge] = useState(false); // Chart x-axis shows age instead of year
+    const [centralLine, setCentralLine] = useState<CentralLine>('median');
+    const [goals, setGoals] = useState<Goal[]>([
+        { label: 'Retirement fund', amount: 10_000_000, targetAge: 60, priority: 'high', inTodaysMoney: true },
+    ]);
+    const [goalConfidence, setGoalConfidence] = useState(80); // %
+    const [grossIncome, setGrossIncome] = useState(2_400_000);
+    const [otherDeductions, setOtherDeductions] = useState(60_000); // Personal allowance
+    const [providentFundContribution, setProvidentFundContribution] = useState(0);
+    const [scenarios, setScenarios] = useState<Scenario[]>([]);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [history, setHistory] = useState<HistoricalReturns | null>(null);
+    const [fundCatalog, setFundCatalog] = useState<CatalogFund[]>(BUILT_IN_FUND_CATALOG);
+    const [bootstrapMethod, setBootstrapMethod] = useState<BootstrapMethod>('iid');
+    const [blockLength, setBlockLength] = useState(5); // Periods of the loaded data
+    const [rebalanceBand, setRebalanceBand] = useState(5); // Percentage points
+    const [sensitivityDeltas, setSensitivityDeltas] = useState<SensitivityDeltas>(DEFAULT_SENSITIVITY_DELTAS);
+    const [heatmapAxes, setHeatmapAxes] = useState<[SensitivityInput, SensitivityInput]>(['expectedReturn', 'investment']);
+    const [stressScenarios, setStressScenarios] = useState<StressScenario[]>(PRESET_STRESS_SCENARIOS);
+    const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+    // Saved scenarios are read after mount so server and client render the same initial markup.
+    useEffect(() => {
+        setScenarios(loadScenarios());
+    }, []);
+
+    // --- SCENARIO SNAPSHOT --- //
+    const currentInputs: ScenarioInputs = useMemo(() => ({
+        positions,
+        correlations,
+        age,
+        projectionYears,
+        percentiles,
+        lumpSums,
+        projectionMethod,
+        returnModel,
+        timeStep,
+        contributionTiming,
+        glidePath,
+        numPaths,
+        seed,
+        retirementAge,
+        annualWithdrawal,
+        withdrawalGrowth,
+        contributionGrowth,
+        inflationRate,
+        inflationVolatility,
+        grossIncome,
+        otherDeductions,
+        providentFundContribution,
+        goals,
+        goalConfidence,
+    }), [positions, correlations, age, projectionYears, percentiles, lumpSums, projectionMethod, returnModel, timeStep, contributionTiming, glidePath, numPaths, seed, retirementAge, annualWithdrawal, withdrawalGrowth, contributionGrowth, inflationRate, inflationVolatility, grossIncome, otherDeductions, providentFundContribution, goals, goalConfidence]);
+
+    const applyInputs = (inputs: ScenarioInputs) => {
+        setPositions(inputs.positions);
+        setCorrelations(inputs.correlations);
+        setAge(inputs.age);
+        setProjectionYears(inputs.projectionYears);
+        setPercentiles(inputs.percentiles);
+        setLumpSums(inputs.lumpSums);
+        setProjectionMethod(inputs.projectionMethod);
+        setReturnModel(inputs.returnModel);
+        setTimeStep(inputs.timeStep);
+        setContributionTiming(inputs.contributionTiming);
+        setGlidePath(inputs.glidePath);
+        setNumPaths(inputs.numPaths);
+        setSeed(inputs.seed);
+        setRetirementAge(inputs.retirementAge);
+        setAnnualWithdrawal(inputs.annualWithdrawal);
+        setWithdrawalGrowth(inputs.withdrawalGrowth);
+        setContributionGrowth(inputs.contributionGrowth);
+        setInflationRate(inputs.inflationRate);
+        setInflationVolatility(inputs.inflationVolatility);
+        setGrossIncome(inputs.grossIncome);
+        setOtherDeductions(inputs.otherDeductions);
+        setProvidentFundContribution(inputs.providentFundContribution);
+        setGoals(inputs.goals);
+        setGoalConfidence(inputs.goalConfidence);
+    };
+
+    const updateScenarios = (next: Scenario[]) => {
+        setScenarios(next);
+        saveScenarios(next);
+        setCompareIds((ids) => ids.filter((id) => next.some((s) => s.id === id)));
+    };
+
+    const handleSaveScenario = (name: string) => {
+        updateScenarios([...scenarios, { id: createScenarioId(), name, savedAt: new Date().toISOString(), inputs: currentInputs }]);
+    };
+
+    const handleDuplicateScenario = (id: string) => {
+        const source = scenarios.find((s) => s.id === id);
+        if (!source) return;
+        updateScenarios([...scenarios, { ...source, id: createScenarioId(), name: `${source.name} (copy)`, savedAt: new Date().toISOString() }]);
+    };
+
+    const handleLoadScenario = (id: string) => {
+        const scenario = scenarios.find((s) => s.id === id);
+        if (scenario) applyInputs(scenario.inputs);
+    };
+
+    const handleToggleCompare = (id: string) => {
+        setCompareIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+    };
+
+    // --- SHARE LINKS --- //
+    // Fields missing from the link keep their defaults.
+    useEffect(() => {
+        if (!sharedState) return;
+        applyInputs({ ...currentInputs, ...sharedState.inputs });
+        if (sharedState.view.isAge !== undefined) setIsAge(sharedState.view.isAge);
+        if (sharedState.view.isRealTerms !== undefined) setIsRealTerms(sharedState.view.isRealTerms);
+        if (sharedState.view.centralLine !== undefined) setCentralLine(sharedState.view.centralLine);
+    }, [sharedState]);
+
+    const handleCopyShareLink = async () => {
+        const url = buildShareUrl(window.location.href.split('#')[0], currentInputs, { isAge, isRealTerms, centralLine });
+        window.history.replaceState(null, '', url);
+        try {
+            await navigator.clipboard.writeText(url);
+            setShareStatus('copied');
+        } catch {
+            // Clipboard access denied: the link is still in the address bar.
+            setShareStatus('failed');
+        }
+    };
 
     // --- DERIVED PORTFOLIO METRICS --- //
-    const { investment, expectedReturn, volatility } = useMemo(() => calculatePortfolioMetrics(positions), [positions]);
+    const { investment, expectedReturn, volatility } = useMemo(() => calculatePortfolioMetrics(positions, correlations), [positions, correlations]);
+
+    // --- TAX --- //
+    const taxInput = { grossIncome, otherDeductions, providentFundContribution, positions };
+    const taxResult = useMemo(() => calculateTax(taxInput), [grossIncome, otherDeductions, providentFundContribution, positions]);
+    const taxSuggestion = useMemo(() => suggestContributionSplit(taxInput), [grossIncome, otherDeductions, providentFundContribution]);
+
+    // Feeding the suggestion back through the positions keeps `investment` the single source of the annual contribution.
+    const handleApplyTaxSuggestion = () => {
+        setPositions(applyContributionSplit(positions, taxSuggestion, { assetClass: 'Global Equity', expectedReturn: 8 }));
+    };
+
+    // --- GLIDE PATH --- //
+    const allocation = useMemo(
+        () => allocationSchedule(positions, correlations, glidePath, age, projectionYears),
+        [positions, correlations, glidePath, age, projectionYears],
+    );
 
     // --- MEMOIZED CALCULATION --- //
     // useMemo ensures the heavy calculation only runs when inputs change.
-    const { yearlyData, summary } = useMemo(() => {
-        return calculateInvestmentProjection({
-            investment,
-            age,
-            projectionYears,
+    const projectionInput = useMemo(() => toProjectionInput(currentInputs), [currentInputs]);
+
+    // Withdrawals break the moment formulas, so the drawdown phase is always simulated
+    // (by resampling history when the bootstrap is selected).
+    const simulationRequired = requiresSimulation(projectionInput);
+    const effectiveMethod: ProjectionMethod = simulationRequired && projectionMethod !== 'bootstrap' ? 'monteCarlo' : projectionMethod;
+
+    // --- HISTORICAL BOOTSTRAP --- //
+    const bootstrapFor = (forPositions: Position[]) => {
+        return history ? toBootstrapInput(history, forPositions, bootstrapMethod, blockLength).input ?? undefined : undefined;
+    };
+    const bootstrapResult = useMemo(
+        () => (history ? toBootstrapInput(history, positions, bootstrapMethod, blockLength) : null),
+        [history, positions, bootstrapMethod, blockLength],
+    );
+    // Without usable data the bootstrap falls back to the parametric simulation.
+    const bootstrap = effectiveMethod === 'bootstrap' ? bootstrapResult?.input ?? undefined : undefined;
+    const engineMethod: ProjectionMethod = effectiveMethod === 'bootstrap' && !bootstrap ? 'monteCarlo' : effectiveMethod;
+
+    const analytical = useMemo(() => calculateInvestmentProjection(projectionInput), [projectionInput]);
+
+    // Simulation only runs when a Monte Carlo view is selected.
+    const monteCarlo = useMemo(() => {
+        if (effectiveMethod === 'analytical') return null;
+        return calculateMonteCarloProjection({ ...projectionInput, numPaths, seed, bootstrap });
+    }, [effectiveMethod, projectionInput, numPaths, seed, bootstrap]);
+
+    const isSimulated = effectiveMethod === 'monteCarlo' || effectiveMethod === 'bootstrap';
+    const { yearlyData: nominalData, summary } = isSimulated && monteCarlo ? monteCarlo : analytical;
+    const nominalOverlay = effectiveMethod === 'overlay' && monteCarlo ? monteCarlo.yearlyData : undefined;
+
+    // --- HOLDING PERIOD RULES --- //
+    const compliance = useMemo(
+        () => checkFundCompliance(positions, nominalData, taxResult.positions.map((p) => (p.contribution > 0 ? p.taxSaved / p.contribution : 0))),
+        [positions, nominalData, taxResult],
+    );
+
+    // --- REBALANCING --- //
+    // Capped path count: the per-position simulation runs once per policy.
+    const rebalancingPaths = Math.min(numPaths, 2000);
+    const rebalancing = useMemo(() => {
+        if (positions.length === 0) return [];
+        const assets = positions.map((pos) => ({
+            label: pos.symbol || pos.assetClass,
+            assetClass: pos.assetClass,
+            expectedReturn: pos.expectedReturn / 100,
+            volatility: positionVolatility(pos),
+            expenseRatio: (pos.expenseRatio ?? 0) / 100,
+        }));
+        return REBALANCING_POLICIES.map((policy) => simulateMultiAsset({
+            projection: projectionInput,
+            assets,
+            correlations,
+            targetWeights: allocation.map((a) => a.weights),
+            policy,
+            band: rebalanceBand / 100,
+            numPaths: rebalancingPaths,
+            seed,
+        }));
+    }, [positions, projectionInput, correlations, allocation, rebalanceBand, rebalancingPaths, seed]);
+    const finalYear = nominalData[nominalData.length - 1];
+
+    // --- SENSITIVITY --- //
+    // The moment engine runs every perturbation; only withdrawals fall back to a smaller, seeded simulation
+    // so every run sees the same draws.
+    const sensitivity = useMemo(() => {
+        const project: Projector = (p) => (requiresSimulation(p)
+            ? calculateMonteCarloProjection({ ...p, numPaths: Math.min(numPaths, 1000), seed })
+            : calculateInvestmentProjection(p));
+        return {
+            tornado: sensitivityTornado(projectionInput, sensitivityDeltas, project, isRealTerms),
+            heatmap: sensitivityHeatmap(projectionInput, heatmapAxes[0], heatmapAxes[1], sensitivityDeltas, project, isRealTerms),
+        };
+    }, [projectionInput, sensitivityDeltas, heatmapAxes, numPaths, seed, isRealTerms]);
+
+    // --- GOALS --- //
+    // Solving needs dozens of projections per goal, so it runs after the inputs settle rather than on every render.
+    const [goalEvaluations, setGoalEvaluations] = useState<GoalEvaluation[]>([]);
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setGoalEvaluations(goals.map((goal) => evaluateGoal(projectionInput, goal, goalConfidence / 100, { numPaths, seed })));
+        }, GOAL_EVALUATION_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [goals, goalConfidence, projectionInput, numPaths, seed]);
+
+    // Markers are drawn in the chart's current terms: a today's-money goal is inflated for the nominal view and vice versa.
+    // Goals past the horizon are kept; the chart lists them below the plot.
+    const goalMarkers = goals
+        .map((goal) => {
+            const year = goal.targetAge - age + 1;
+            const priceLevel = deflatorParams(projectionInput, year).expected;
+            const value = goal.inTodaysMoney === isRealTerms ? goal.amount : goal.inTodaysMoney ? goal.amount * priceLevel : goal.amount / priceLevel;
+            return { label: goal.label, year, age: goal.targetAge, value, priority: goal.priority };
+        })
+        .filter((marker) => marker.year >= 1);
+
+    // --- SCENARIO COMPARISON --- //
+    const comparison = useMemo(() => {
+        return compareIds
+            .map((id) => scenarios.find((s) => s.id === id))
+            .filter((s): s is Scenario => s !== undefined)
+            .map((s) => ({ name: s.name, output: projectScenario(s.inputs, bootstrapFor) }));
+    }, [compareIds, scenarios, history, bootstrapMethod, blockLength]);
+    const isComparing = comparison.length >= 2;
+
+    // The chart and table share one nominal / today's money switch.
+    const yearlyData = isRealTerms ? toRealTerms(nominalData) : nominalData;
+    const overlayData = nominalOverlay && isRealTerms ? toRealTerms(nominalOverlay) : nominalOverlay;
+
+    // --- STRESS TESTS --- //
+    // Paths are nominal; today's money divides by the expected price level, as for `realDeterministicCase`.
+    const stressPaths = useMemo(() => {
+        return stressScenarios
+            .filter((scenario) => scenario.enabled)
+            .map((scenario) => ({ scenario, nominal: stressPath(projectionInput, stressedGrossReturns(positions, allocation, scenario, projectionInput.returnModel)) }));
+    }, [stressScenarios, projectionInput, positions, allocation]);
+    const stressResults: StressTestResult[] = stressPaths.map(({ scenario, nominal }) => {
+        const values = isRealTerms ? nominal.map((v, i) => v / (nominalData[i]?.deflator ?? 1)) : nominal;
+        return {
+            scenario,
+            finalValue: values[values.length - 1] ?? 0,
+            finalMedian: yearlyData[yearlyData.length - 1]?.medianCase ?? 0,
+            shortfall: stressShortfall(values, yearlyData.map((d) => d.medianCase)),
+            values,
+        };
+    });
+
+    // --- EXPORT --- //
+    // Always the nominal series: each row carries its today's-money columns too.
+    const handleExport = (format: ExportFormat, locale: string) => {
+        const tables = exportTables({
+            inputs: currentInputs,
+            method: engineMethod,
             expectedReturn,
             volatility,
-            percentile,
-            lumpSumInvestment,
-        });
-    }, [investment, age, projectionYears, expectedReturn, volatility, percentile, lumpSumInvestment]);
+            bootstrap: bootstrap ? { method: bootstrapMethod, blockLength: bootstrap.blockLength, periods: bootstrap.periodReturns.length } : undefined,
+            generatedAt: new Date(),
+        }, nominalData, locale);
+        downloadExport(tables, format, locale, `investment-projection-${new Date().toISOString().slice(0, 10)}`);
+    };
 
     // --- UI RENDERING --- //
     const currencyFormatter = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'THB', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
@@ -332,8 +604,29 @@ const App: React.FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-2">
 
                 {/* Portfolio */}
-                <div className="lg:col-span-2">
-                    <Portfolio positions={positions} setPositions={setPositions} />
+                <div className="lg:col-span-2 space-y-4">
+                    <Portfolio positions={positions} setPositions={setPositions} catalog={fundCatalog} setCatalog={setFundCatalog} />
+                    <CorrelationMatrixPanel correlations={correlations} setCorrelations={setCorrelations} />
+                    <GlidePathPanel glidePath={glidePath} setGlidePath={setGlidePath} schedule={allocation} canFollow={canFollowGlidePath(positions)} />
+                    <RebalancingPanel
+                        results={rebalancing}
+                        singleStream={finalYear ? { bands: finalYear.bands, median: finalYear.medianCase, mean: finalYear.meanCase } : null}
+                        targetMix={allocation[allocation.length - 1]?.byAssetClass}
+                        band={rebalanceBand}
+                        setBand={setRebalanceBand}
+                        numPaths={rebalancingPaths}
+                        currencyFormatter={currencyFormatter}
+                    />
+                    <HistoricalReturnsPanel
+                        history={history}
+                        setHistory={setHistory}
+                        method={bootstrapMethod}
+                        setMethod={setBootstrapMethod}
+                        blockLength={blockLength}
+                        setBlockLength={setBlockLength}
+                        missing={bootstrapResult?.missing ?? []}
+                        active={projectionMethod === 'bootstrap'}
+                    />
                 </div>
 
                 {/* Parameters */}
@@ -343,26 +636,83 @@ const App: React.FC = () => {
                         setAge={setAge}
                         projectionYears={projectionYears}
                         setProjectionYears={setProjectionYears}
-                        percentile={percentile}
-                        setPercentile={setPercentile}
+                        percentiles={percentiles}
+                        setPercentiles={setPercentiles}
                         investment={investment}
                         expectedReturn={expectedReturn}
                         volatility={volatility}
-                        lumpSumInvestment={lumpSumInvestment}
-                        setLumpSumInvestment={setLumpSumInvestment}
+                        lumpSums={lumpSums}
+                        setLumpSums={setLumpSums}
+                        projectionMethod={projectionMethod}
+                        setProjectionMethod={setProjectionMethod}
+                        returnModel={returnModel}
+                        setReturnModel={setReturnModel}
+                        timeStep={timeStep}
+                        setTimeStep={setTimeStep}
+                        contributionTiming={contributionTiming}
+                        setContributionTiming={setContributionTiming}
+                        numPaths={numPaths}
+                        setNumPaths={setNumPaths}
+                        seed={seed}
+                        setSeed={setSeed}
+                        simulationRequired={simulationRequired}
+                        retirementAge={retirementAge}
+                        setRetirementAge={setRetirementAge}
+                        annualWithdrawal={annualWithdrawal}
+                        setAnnualWithdrawal={setAnnualWithdrawal}
+                        withdrawalGrowth={withdrawalGrowth}
+                        setWithdrawalGrowth={setWithdrawalGrowth}
+                        contributionGrowth={contributionGrowth}
+                        setContributionGrowth={setContributionGrowth}
+                        inflationRate={inflationRate}
+                        setInflationRate={setInflationRate}
+                        inflationVolatility={inflationVolatility}
+                        setInflationVolatility={setInflationVolatility}
                     />
                 </div>
             </div>
+            <div className="grid grid-cols-1 gap-4 p-2">
+                {/* Tax Planning */}
+                <TaxPanel
+                    grossIncome={grossIncome}
+                    setGrossIncome={setGrossIncome}
+                    otherDeductions={otherDeductions}
+                    setOtherDeductions={setOtherDeductions}
+                    providentFundContribution={providentFundContribution}
+                    setProvidentFundContribution={setProvidentFundContribution}
+                    taxResult={taxResult}
+                    suggestion={taxSuggestion}
+                    onApplySuggestion={handleApplyTaxSuggestion}
+                />
+                <CompliancePanel report={compliance} currencyFormatter={currencyFormatter} />
+            </div>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-2">
                 {/* Projection Chart */}
                 {yearlyData.length > 0 && (
                     <Card className="lg:col-span-2 card-compact">
-                        <CardHeader>
-                            <CardTitle>Portfolio Projection</CardTitle>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                            <CardTitle>{isComparing ? 'Scenario Comparison' : 'Portfolio Projection'}</CardTitle>
+                            <Button variant="outline" size="sm" onClick={handleCopyShareLink} onBlur={() => setShareStatus('idle')}>
+                                {shareStatus === 'copied' ? 'Link Copied' : shareStatus === 'failed' ? 'Link in Address Bar' : 'Copy Share Link'}
+                            </Button>
                         </CardHeader>
                         <CardContent>
                             <ProjectionChart
                                 projectionData={yearlyData}
+                                overlayData={overlayData}
+                                lumpSums={lumpSums}
+                                streams={positions.map((pos) => ({ label: pos.symbol || pos.assetClass, assetClass: pos.assetClass }))}
+                                isRealTerms={isRealTerms}
+                                setIsRealTerms={setIsRealTerms}
+                                isAge={isAge}
+                                setIsAge={setIsAge}
+                                centralLine={centralLine}
+                                setCentralLine={setCentralLine}
+                                goalMarkers={goalMarkers}
+                                comparisons={isComparing
+                                    ? comparison.map((c) => ({ name: c.name, data: isRealTerms ? toRealTerms(c.output.yearlyData) : c.output.yearlyData }))
+                                    : undefined}
+                                stressPaths={stressResults.map((r) => ({ name: r.scenario.name, values: r.values }))}
                                 currencyFormatter={currencyFormatter}
                                 compactNumberFormatter={compactNumberFormatter}
                             />
@@ -377,13 +727,68 @@ const App: React.FC = () => {
                     </div>
                 )}
             </div>
+            <div className="grid grid-cols-1 gap-4 p-2">
+                {/* Stress Tests */}
+                <StressTestPanel
+                    scenarios={stressScenarios}
+                    setScenarios={setStressScenarios}
+                    results={stressResults}
+                    age={age}
+                    projectionYears={projectionYears}
+                    isRealTerms={isRealTerms}
+                    currencyFormatter={currencyFormatter}
+                />
+            </div>
+            <div className="grid grid-cols-1 gap-4 p-2">
+                {/* Scenarios */}
+                <ScenariosPanel
+                    scenarios={scenarios}
+                    compareIds={compareIds}
+                    comparison={comparison.map((c) => ({ name: c.name, summary: c.output.summary }))}
+                    onSave={handleSaveScenario}
+                    onLoad={handleLoadScenario}
+                    onDuplicate={handleDuplicateScenario}
+                    onDelete={(id) => updateScenarios(scenarios.filter((s) => s.id !== id))}
+                    onToggleCompare={handleToggleCompare}
+                />
+            </div>
+            <div className="grid grid-cols-1 gap-4 p-2">
+                {/* Goals */}
+                <GoalsPanel
+                    goals={goals}
+                    setGoals={setGoals}
+                    evaluations={goalEvaluations}
+                    confidence={goalConfidence}
+                    setConfidence={setGoalConfidence}
+                    currentAge={age}
+                    currentInvestment={investment}
+                />
+            </div>
+            <div className="grid grid-cols-1 gap-4 p-2">
+                {/* Sensitivity */}
+                <SensitivityPanel
+                    deltas={sensitivityDeltas}
+                    setDeltas={setSensitivityDeltas}
+                    tornado={sensitivity.tornado}
+                    heatmap={sensitivity.heatmap}
+                    setHeatmapAxes={(rowInput, colInput) => setHeatmapAxes([rowInput, colInput])}
+                    isRealTerms={isRealTerms}
+                    currencyFormatter={currencyFormatter}
+                    compactNumberFormatter={compactNumberFormatter}
+                />
+            </div>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-2">
                 {/* Projection Table */}
                 {yearlyData.length > 0 && (
                     <div className="lg:col-span-3 card-compact">
                         <ProjectionTable
                             projectionData={yearlyData}
+                            isRealTerms={isRealTerms}
+                            setIsRealTerms={setIsRealTerms}
+                            centralLine={centralLine}
+                            setCentralLine={setCentralLine}
                             currencyFormatter={currencyFormatter}
+                            onExport={handleExport}
                         />
                     </div>
                 )}
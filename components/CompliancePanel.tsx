@@ -0,0 +1,94 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ComplianceIssue, ComplianceReport, HOLDING_RULES } from '@/lib/compliance';
+
+interface CompliancePanelProps {
+    report: ComplianceReport;
+    currencyFormatter: (value: number) => string;
+}
+
+const describeIssue = (issue: ComplianceIssue, currencyFormatter: (value: number) => string) => {
+    if (issue.kind === 'contributionGap') {
+        const gap = (HOLDING_RULES[issue.fundType].maxContributionGap ?? 0) + 1;
+        return `${issue.symbol}: no ${issue.fundType} purchase for ${gap} years in a row by year ${issue.year} (age ${issue.age}), before it may be redeemed.`;
+    }
+    return `${issue.symbol}: the withdrawal in year ${issue.year} (age ${issue.age}) redeems about ${currencyFormatter(issue.redeemedAmount)} of contributions before the ${issue.fundType} holding period ends.`;
+};
+
+const CompliancePanel: React.FC<CompliancePanelProps> = ({ report, currencyFormatter }) => {
+    const metrics = [
+        { label: 'Estimated Tax Clawback', value: report.totalClawback },
+        { label: 'Estimated Surcharge', value: report.totalSurcharge },
+    ];
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Holding Period Rules</CardTitle>
+                <CardDescription>
+                    SSF is held 10 years per purchase, ThaiESG 5 years, and RMF until age 55 and at least 5 years from the first
+                    purchase, buying at least every other year. Withdrawals are taken from every position pro rata.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {report.lots.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No SSF, RMF or ThaiESG contributions in the projection.</p>
+                ) : (
+                    <>
+                        {report.issues.length === 0 ? (
+                            <p className="text-sm text-green-600">The planned contributions and withdrawals keep every deduction.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                <ul className="list-disc pl-5 text-sm text-red-600">
+                                    {report.issues.map((issue, i) => (
+                                        <li key={i}>
+                                            {describeIssue(issue, currencyFormatter)} Repays about {currencyFormatter(issue.clawback)} of tax
+                                            {issue.surcharge > 0 ? ` plus ${currencyFormatter(issue.surcharge)} surcharge` : ''}.
+                                        </li>
+                                    ))}
+                                </ul>
+                                <div className="space-y-1">
+                                    {metrics.map(({ label, value }) => (
+                                        <div key={label} className="flex justify-between text-sm border-b py-1 max-w-sm">
+                                            <span className="text-muted-foreground">{label}</span>
+                                            <span className="font-semibold font-mono tabular-nums text-red-600">{currencyFormatter(value)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        <div className="rounded-md border max-h-72 overflow-y-auto">
+                            <Table className="text-xs">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="p-2">Symbol</TableHead>
+                                        <TableHead className="p-2">Type</TableHead>
+                                        <TableHead className="p-2 text-right">Bought (Year / Age)</TableHead>
+                                        <TableHead className="p-2 text-right">Amount</TableHead>
+                                        <TableHead className="p-2 text-right">Tax Saved</TableHead>
+                                        <TableHead className="p-2 text-right">Penalty-Free From (Year / Age)</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {report.lots.map((lot) => (
+                                        <TableRow key={`${lot.position}-${lot.year}`}>
+                                            <TableCell className="p-2 font-medium">{lot.symbol}</TableCell>
+                                            <TableCell className="p-2">{lot.fundType}</TableCell>
+                                            <TableCell className="p-2 text-right">{lot.year} / {lot.age}</TableCell>
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">{currencyFormatter(lot.amount)}</TableCell>
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">{currencyFormatter(lot.taxSaved)}</TableCell>
+                                            <TableCell className="p-2 text-right">{lot.earliestRedemptionYear} / {lot.earliestRedemptionAge}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default CompliancePanel;
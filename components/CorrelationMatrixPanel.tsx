@@ -0,0 +1,71 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ASSET_CLASSES, CorrelationMatrix, DEFAULT_CORRELATIONS, isPositiveSemiDefinite, setCorrelation } from '@/lib/risk';
+
+interface CorrelationMatrixPanelProps {
+    correlations: CorrelationMatrix;
+    setCorrelations: (correlations: CorrelationMatrix) => void;
+}
+
+const CorrelationMatrixPanel: React.FC<CorrelationMatrixPanelProps> = ({ correlations, setCorrelations }) => {
+    const isValid = isPositiveSemiDefinite(correlations);
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Asset Class Correlations</CardTitle>
+                <CardDescription>Edit the upper triangle; the matrix is kept symmetric.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <div className="rounded-md border">
+                    <Table className="text-xs">
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="p-2" />
+                                {ASSET_CLASSES.map((assetClass) => (
+                                    <TableHead key={assetClass} className="p-2 text-right">{assetClass}</TableHead>
+                                ))}
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {ASSET_CLASSES.map((rowClass, i) => (
+                                <TableRow key={rowClass}>
+                                    <TableCell className="p-2 font-medium">{rowClass}</TableCell>
+                                    {ASSET_CLASSES.map((colClass, j) => (
+                                        <TableCell key={colClass} className="p-1 text-right">
+                                            {j > i ? (
+                                                <Input
+                                                    type="number"
+                                                    min={-1}
+                                                    max={1}
+                                                    step={0.05}
+                                                    value={correlations[i][j]}
+                                                    onChange={(e) => setCorrelations(setCorrelation(correlations, i, j, Number(e.target.value)))}
+                                                    className="h-8 text-right text-xs"
+                                                    aria-label={`${rowClass} / ${colClass} correlation`}
+                                                />
+                                            ) : (
+                                                <span className="font-mono tabular-nums text-muted-foreground">{correlations[i][j].toFixed(2)}</span>
+                                            )}
+                                        </TableCell>
+                                    ))}
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+                <div className="flex justify-between items-center mt-2">
+                    <span className={isValid ? 'text-xs text-muted-foreground' : 'text-xs text-red-600'}>
+                        {isValid ? 'Matrix is positive semi-definite.' : 'Matrix is not positive semi-definite; portfolio volatility may be understated.'}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => setCorrelations(DEFAULT_CORRELATIONS)}>Reset</Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default CorrelationMatrixPanel;
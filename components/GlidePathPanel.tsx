@@ -0,0 +1,163 @@
+import React from 'react';
+import { X } from "lucide-react";
+import { AreaChart, Area, CartesianGrid, XAxis, YAxis, Tooltip, Legend } from 'recharts';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AllocationYear, GLIDE_PATH_MODES, GlidePath, GlidePathMode } from '@/lib/glidePath';
+import { ASSET_CLASSES } from '@/lib/risk';
+
+const GLIDE_PATH_MODE_LABELS: Record<GlidePathMode, string> = {
+    off: 'Off (fixed weights)',
+    linear: 'Linear from start to target age',
+    table: 'Custom per-age table',
+};
+
+// One color per asset class, in `ASSET_CLASSES` order
+const ASSET_CLASS_COLORS = ['#94a3b8', '#0ea5e9', '#f59e0b', '#6366f1', '#14b8a6'];
+
+interface GlidePathPanelProps {
+    glidePath: GlidePath;
+    setGlidePath: (glidePath: GlidePath) => void;
+    schedule: AllocationYear[];
+    canFollow: boolean; // Whether the portfolio holds both equity and non-equity positions
+}
+
+const GlidePathPanel: React.FC<GlidePathPanelProps> = ({ glidePath, setGlidePath, schedule, canFollow }) => {
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const update = (patch: Partial<GlidePath>) => setGlidePath({ ...glidePath, ...patch });
+    const updateRow = (index: number, patch: Partial<GlidePath['table'][number]>) => {
+        update({ table: glidePath.table.map((row, i) => (i === index ? { ...row, ...patch } : row)) });
+    };
+    const addRow = () => {
+        const last = glidePath.table[glidePath.table.length - 1];
+        update({ table: [...glidePath.table, { age: (last?.age ?? 40) + 5, equityShare: last?.equityShare ?? 50 }] });
+    };
+
+    const chartData = schedule.map((d) => ({
+        age: d.age,
+        ...Object.fromEntries(ASSET_CLASSES.map((c) => [c, +(d.byAssetClass[c] * 100).toFixed(2)])),
+    }));
+    const heldClasses = ASSET_CLASSES.filter((c) => schedule.some((d) => d.byAssetClass[c] > 0));
+    const first = schedule[0];
+    const last = schedule[schedule.length - 1];
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Glide Path</CardTitle>
+                <CardDescription>
+                    Shifts the equity share with age, keeping the positions&apos; proportions within equity and within the rest.
+                    Each year uses the return and volatility of its own mix; the historical bootstrap keeps the starting mix.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid w-full max-w-sm items-center gap-1.5">
+                    <Label htmlFor="glide-path-mode">Mode</Label>
+                    <Select value={glidePath.mode} onValueChange={(v) => update({ mode: v as GlidePathMode })}>
+                        <SelectTrigger id="glide-path-mode">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {GLIDE_PATH_MODES.map((mode) => (
+                                <SelectItem key={mode} value={mode}>{GLIDE_PATH_MODE_LABELS[mode]}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                {glidePath.mode !== 'off' && !canFollow && (
+                    <p className="text-sm text-red-600">Add both an equity and a non-equity position for the glide path to shift between.</p>
+                )}
+
+                {glidePath.mode === 'linear' && (
+                    <div className="grid grid-cols-2 gap-2 max-w-md">
+                        {([
+                            { key: 'startAge', label: 'Start Age', max: 100 },
+                            { key: 'targetAge', label: 'Target Age', max: 100 },
+                            { key: 'startEquityShare', label: 'Equity at Start (%)', max: 100 },
+                            { key: 'endEquityShare', label: 'Equity at Target (%)', max: 100 },
+                        ] as const).map(({ key, label, max }) => (
+                            <div key={key} className="space-y-1">
+                                <Label htmlFor={`glide-path-${key}`}>{label}</Label>
+                                <Input
+                                    id={`glide-path-${key}`}
+                                    type="number"
+                                    min={0}
+                                    max={max}
+                                    value={glidePath[key]}
+                                    onChange={(e) => update({ [key]: Math.min(max, Math.max(0, Number(e.target.value))) })}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {glidePath.mode === 'table' && (
+                    <div className="space-y-2">
+                        <div className="rounded-md border max-w-md">
+                            <Table className="text-xs">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="p-2 text-right">Age</TableHead>
+                                        <TableHead className="p-2 text-right">Equity (%)</TableHead>
+                                        <TableHead className="p-2" />
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {glidePath.table.map((row, index) => (
+                                        <TableRow key={index}>
+                                            <TableCell className="p-1">
+                                                <Input aria-label="Glide path age" type="number" min={18} max={100} step={1} value={row.age} onChange={(e) => updateRow(index, { age: Math.round(Number(e.target.value)) })} className="h-8 text-xs text-right" />
+                                            </TableCell>
+                                            <TableCell className="p-1">
+                                                <Input aria-label="Glide path equity share" type="number" min={0} max={100} step={5} value={row.equityShare} onChange={(e) => updateRow(index, { equityShare: Math.min(100, Math.max(0, Number(e.target.value))) })} className="h-8 text-xs text-right" />
+                                            </TableCell>
+                                            <TableCell className="p-1 text-right">
+                                                <Button variant="ghost" size="icon" aria-label="Remove glide path row" onClick={() => update({ table: glidePath.table.filter((_, i) => i !== index) })}>
+                                                    <X className="h-4 w-4" />
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={addRow}>Add Age</Button>
+                    </div>
+                )}
+
+                {first && last && (
+                    <p className="text-sm text-muted-foreground">
+                        Equity {formatPercent(first.equityShare)} at age {first.age} ({formatPercent(first.expectedReturn)} return, {formatPercent(first.volatility)} volatility),
+                        {' '}{formatPercent(last.equityShare)} at age {last.age} ({formatPercent(last.expectedReturn)} return, {formatPercent(last.volatility)} volatility).
+                    </p>
+                )}
+
+                <AreaChart width={600} height={250} data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                    <XAxis dataKey="age" label={{ value: 'Age', position: 'insideBottom', offset: -5 }} />
+                    <YAxis domain={[0, 100]} tickFormatter={(v: number) => `${v}%`} />
+                    <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} labelFormatter={(label) => `Age: ${label}`} />
+                    <Legend />
+                    {heldClasses.map((assetClass) => (
+                        <Area
+                            key={assetClass}
+                            type="monotone"
+                            dataKey={assetClass}
+                            stackId="allocation"
+                            fill={ASSET_CLASS_COLORS[ASSET_CLASSES.indexOf(assetClass)]}
+                            stroke={ASSET_CLASS_COLORS[ASSET_CLASSES.indexOf(assetClass)]}
+                            fillOpacity={0.8}
+                        />
+                    ))}
+                </AreaChart>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default GlidePathPanel;
@@ -0,0 +1,156 @@
+import React from 'react';
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+// --- SHARED TYPES --- //
+
+export type GoalPriority = 'high' | 'medium' | 'low';
+
+/**
+ * A savings target: `amount` available at the end of the year the user turns `targetAge`.
+ */
+export interface Goal {
+    label: string;
+    amount: number;
+    targetAge: number;
+    priority: GoalPriority;
+    inTodaysMoney: boolean; // Whether `amount` is expressed in today's money
+}
+
+/**
+ * How a goal fares under the current inputs.
+ */
+export interface GoalEvaluation {
+    targetYear: number;
+    probability: number;               // Probability of reaching the goal
+    requiredInvestment: number | null; // Annual investment needed at the chosen confidence (null if unreachable)
+    requiredLumpSum: number | null;    // Extra lump sum at the end of year 1 needed at the chosen confidence
+}
+
+export const GOAL_PRIORITY_COLORS: Record<GoalPriority, string> = {
+    high: '#dc2626',
+    medium: '#d97706',
+    low: '#2563eb',
+};
+
+interface GoalsPanelProps {
+    goals: Goal[];
+    setGoals: (goals: Goal[]) => void;
+    evaluations: GoalEvaluation[];
+    confidence: number;
+    setConfidence: (v: number) => void;
+    currentAge: number;
+    currentInvestment: number;
+}
+
+const GoalsPanel: React.FC<GoalsPanelProps> = ({ goals, setGoals, evaluations, confidence, setConfidence, currentAge, currentInvestment }) => {
+    const currencyFormatter = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'THB', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    const update = (index: number, patch: Partial<Goal>) => {
+        setGoals(goals.map((g, i) => (i === index ? { ...g, ...patch } : g)));
+    };
+    const add = () => {
+        setGoals([...goals, { label: `Goal ${goals.length + 1}`, amount: 5_000_000, targetAge: currentAge + 20, priority: 'medium', inTodaysMoney: true }]);
+    };
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Goals</CardTitle>
+                <CardDescription>Probabilities use the semi-analytical engine, or Monte Carlo when withdrawals fall before the target age.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid w-full max-w-sm items-center gap-1.5">
+                    <Label htmlFor="goal-confidence">Required Confidence (%)</Label>
+                    <Input id="goal-confidence" type="number" min={1} max={99} step={5} value={confidence} onChange={(e) => setConfidence(Number(e.target.value))} />
+                </div>
+                <div className="rounded-md border">
+                    <Table className="text-xs">
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="p-2">Goal</TableHead>
+                                <TableHead className="p-2 text-right">Amount</TableHead>
+                                <TableHead className="p-2 text-right">Target Age</TableHead>
+                                <TableHead className="p-2">Priority</TableHead>
+                                <TableHead className="p-2">Today&apos;s Money</TableHead>
+                                <TableHead className="p-2 text-right">Probability</TableHead>
+                                <TableHead className="p-2 text-right">Required Annual Investment</TableHead>
+                                <TableHead className="p-2 text-right">Or Extra Lump Sum Now</TableHead>
+                                <TableHead className="p-2" />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {goals.length > 0 ? (
+                                goals.map((goal, index) => {
+                                    const evaluation = evaluations[index];
+                                    return (
+                                        <TableRow key={index}>
+                                            <TableCell className="p-1">
+                                                <Input aria-label="Goal label" value={goal.label} onChange={(e) => update(index, { label: e.target.value })} className="h-8 text-xs" />
+                                            </TableCell>
+                                            <TableCell className="p-1">
+                                                <Input aria-label="Goal amount" type="number" min={0} step={100000} value={goal.amount} onChange={(e) => update(index, { amount: Math.max(0, Number(e.target.value)) })} className="h-8 text-xs text-right" />
+                                            </TableCell>
+                                            <TableCell className="p-1">
+                                                <Input aria-label="Goal target age" type="number" min={currentAge} max={100} step={1} value={goal.targetAge} onChange={(e) => update(index, { targetAge: Math.round(Number(e.target.value)) })} className="h-8 text-xs text-right" />
+                                            </TableCell>
+                                            <TableCell className="p-1">
+                                                <Select value={goal.priority} onValueChange={(v) => update(index, { priority: v as GoalPriority })}>
+                                                    <SelectTrigger className="h-8 text-xs" aria-label="Goal priority">
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        <SelectItem value="high">High</SelectItem>
+                                                        <SelectItem value="medium">Medium</SelectItem>
+                                                        <SelectItem value="low">Low</SelectItem>
+                                                    </SelectContent>
+                                                </Select>
+                                            </TableCell>
+                                            <TableCell className="p-2">
+                                                <Switch aria-label="Goal in today's money" checked={goal.inTodaysMoney} onCheckedChange={(v) => update(index, { inTodaysMoney: v })} />
+                                            </TableCell>
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">
+                                                {evaluation ? formatPercent(evaluation.probability) : '-'}
+                                            </TableCell>
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">
+                                                {evaluation?.requiredInvestment == null ? 'Not reachable' : (
+                                                    <span className={evaluation.requiredInvestment > currentInvestment ? 'text-red-600' : 'text-green-600'}>
+                                                        {currencyFormatter(evaluation.requiredInvestment)}
+                                                    </span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">
+                                                {evaluation?.requiredLumpSum == null ? 'Not reachable' : currencyFormatter(evaluation.requiredLumpSum)}
+                                            </TableCell>
+                                            <TableCell className="p-1 text-right">
+                                                <Button variant="ghost" size="icon" aria-label="Remove goal" onClick={() => setGoals(goals.filter((_, i) => i !== index))}>
+                                                    <X className="h-4 w-4" />
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })
+                            ) : (
+                                <TableRow>
+                                    <TableCell colSpan={9} className="h-16 text-center">
+                                        No goals defined yet.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </div>
+                <Button variant="outline" size="sm" onClick={add}>Add Goal</Button>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default GoalsPanel;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AssetClass } from '@/lib/risk';
+import { BootstrapMethod, HistoricalReturns, parseHistoricalReturnsCsv } from '@/lib/historicalReturns';
+
+interface HistoricalReturnsPanelProps {
+    history: HistoricalReturns | null;
+    setHistory: (history: HistoricalReturns | null) => void;
+    method: BootstrapMethod;
+    setMethod: (v: BootstrapMethod) => void;
+    blockLength: number;  // In periods of the loaded data
+    setBlockLength: (v: number) => void;
+    missing: string[];    // Held asset classes without a return series
+    active: boolean;      // Whether the historical bootstrap is the selected projection method
+}
+
+const HistoricalReturnsPanel: React.FC<HistoricalReturnsPanelProps> = (props) => {
+    const [errors, setErrors] = useState<string[]>([]);
+    const [fileName, setFileName] = useState('');
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        const result = parseHistoricalReturnsCsv(await file.text());
+        setFileName(file.name);
+        setErrors(result.errors);
+        if (result.history) props.setHistory(result.history);
+    };
+
+    const periodUnit = props.history?.frequency === 'monthly' ? 'months' : 'years';
+    const stats = props.history
+        ? (Object.entries(props.history.returns) as [AssetClass, number[]][]).map(([assetClass, series]) => {
+            const values = series.filter(Number.isFinite);
+            return {
+                assetClass,
+                count: values.length,
+                mean: values.reduce((acc, v) => acc + v, 0) / Math.max(1, values.length),
+                worst: Math.min(...values),
+            };
+        })
+        : [];
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Historical Returns</CardTitle>
+                <CardDescription>
+                    Upload a CSV with a period column (YYYY or YYYY-MM) and one column of returns in percent per asset class.
+                    Select &quot;Historical bootstrap&quot; as the projection method to resample it. The data stays in this session
+                    and is not included in saved scenarios or share links.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-end gap-4">
+                    <div className="grid w-full max-w-sm items-center gap-1.5">
+                        <Label htmlFor="history-file">Return Series (CSV)</Label>
+                        <Input id="history-file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+                    </div>
+                    <div className="grid w-full max-w-[12rem] items-center gap-1.5">
+                        <Label htmlFor="bootstrap-method">Resampling</Label>
+                        <Select value={props.method} onValueChange={(v) => props.setMethod(v as BootstrapMethod)}>
+                            <SelectTrigger id="bootstrap-method">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="iid">IID (single periods)</SelectItem>
+                                <SelectItem value="block">Block (consecutive periods)</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {props.method === 'block' && (
+                        <div className="grid w-full max-w-[10rem] items-center gap-1.5">
+                            <Label htmlFor="block-length">Block Length ({props.history ? periodUnit : 'periods'})</Label>
+                            <Input id="block-length" type="number" min={1} step={1} value={props.blockLength} onChange={(e) => props.setBlockLength(Math.max(1, Math.round(Number(e.target.value))))} />
+                        </div>
+                    )}
+                    {props.history && (
+                        <Button variant="outline" size="sm" onClick={() => { props.setHistory(null); setFileName(''); setErrors([]); }}>Clear</Button>
+                    )}
+                </div>
+
+                {errors.length > 0 && (
+                    <div className="text-sm text-red-600">
+                        <p className="font-medium">Could not load {fileName || 'the file'}:</p>
+                        <ul className="list-disc pl-5">
+                            {errors.slice(0, 5).map((error) => <li key={error}>{error}</li>)}
+                        </ul>
+                        {errors.length > 5 && <p>…and {errors.length - 5} more.</p>}
+                    </div>
+                )}
+
+                {props.history && (
+                    <>
+                        <p className="text-sm text-muted-foreground">
+                            {props.history.periods.length} {props.history.frequency} periods, {props.history.periods[0]} to {props.history.periods[props.history.periods.length - 1]}.
+                        </p>
+                        <div className="rounded-md border">
+                            <Table className="text-xs">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="p-2">Asset Class</TableHead>
+                                        <TableHead className="p-2 text-right">Observations</TableHead>
+                                        <TableHead className="p-2 text-right">Mean Return per Period</TableHead>
+                                        <TableHead className="p-2 text-right">Worst Period</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {stats.map((s) => (
+                                        <TableRow key={s.assetClass}>
+                                            <TableCell className="p-2 font-medium">{s.assetClass}</TableCell>
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">{s.count}</TableCell>
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">{formatPercent(s.mean)}</TableCell>
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">{s.count > 0 ? formatPercent(s.worst) : '-'}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </>
+                )}
+
+                {props.active && !props.history && (
+                    <p className="text-sm text-amber-600">No historical data loaded; the projection falls back to the parametric Monte Carlo.</p>
+                )}
+                {props.active && props.history && props.missing.length > 0 && (
+                    <p className="text-sm text-amber-600">
+                        No returns for {props.missing.join(', ')}; the projection falls back to the parametric Monte Carlo.
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default HistoricalReturnsPanel;
@@ -1,7 +1,26 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    clampNumPaths,
+    clampSeed,
+    ContributionTiming,
+    LumpSum,
+    normalizePercentiles,
+    ReturnModel,
+    SIMULATION_PATHS,
+    SIMULATION_SEED,
+    TimeStep,
+} from '@/lib/projection';
+
+// --- SHARED TYPES --- //
+
+export type ProjectionMethod = 'analytical' | 'monteCarlo' | 'overlay' | 'bootstrap';
+export type { ContributionTiming, LumpSum, ReturnModel, TimeStep };
 
 // --- PROPS INTERFACES --- //
 
@@ -14,18 +33,50 @@ interface ParameterProps {
     step: number;
 }
 
+interface ChoiceProps {
+    label: string;
+    value: string;
+    setValue: (v: string) => void;
+    options: { value: string; label: string }[];
+}
+
 interface ParametersPanelProps {
     age: number;
     setAge: (v: number) => void;
     projectionYears: number;
     setProjectionYears: (v: number) => void;
-    percentile: number;
-    setPercentile: (v: number) => void;
+    percentiles: number[];
+    setPercentiles: (v: number[]) => void;
     investment: number;
     expectedReturn: number;
     volatility: number;
-    lumpSumInvestment: number;
-    setLumpSumInvestment: (v: number) => void;
+    lumpSums: LumpSum[];
+    setLumpSums: (v: LumpSum[]) => void;
+    projectionMethod: ProjectionMethod;
+    setProjectionMethod: (v: ProjectionMethod) => void;
+    returnModel: ReturnModel;
+    setReturnModel: (v: ReturnModel) => void;
+    timeStep: TimeStep;
+    setTimeStep: (v: TimeStep) => void;
+    contributionTiming: ContributionTiming;
+    setContributionTiming: (v: ContributionTiming) => void;
+    numPaths: number;
+    setNumPaths: (v: number) => void;
+    seed: number;
+    setSeed: (v: number) => void;
+    simulationRequired: boolean;
+    retirementAge: number;
+    setRetirementAge: (v: number) => void;
+    annualWithdrawal: number;
+    setAnnualWithdrawal: (v: number) => void;
+    withdrawalGrowth: number;
+    setWithdrawalGrowth: (v: number) => void;
+    contributionGrowth: number;
+    setContributionGrowth: (v: number) => void;
+    inflationRate: number;
+    setInflationRate: (v: number) => void;
+    inflationVolatility: number;
+    setInflationVolatility: (v: number) => void;
 }
 
 // --- REUSABLE PARAMETER COMPONENT --- //
@@ -45,6 +96,83 @@ const Parameter: React.FC<ParameterProps> = ({ label, value, setValue, min, max,
     </div>
 );
 
+// --- REUSABLE CHOICE COMPONENT --- //
+
+const Choice: React.FC<ChoiceProps> = ({ label, value, setValue, options }) => (
+    <div className="grid w-full max-w-sm items-center gap-1.5">
+        <Label htmlFor={label}>{label}</Label>
+        <Select onValueChange={setValue} value={value}>
+            <SelectTrigger id={label}>
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                {options.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    </div>
+);
+
+// --- FAN PERCENTILES COMPONENT --- //
+
+/**
+ * Comma-separated list of lower percentiles, applied on blur or Enter so partial input isn't rejected while typing.
+ */
+const PercentileList: React.FC<{ percentiles: number[]; setPercentiles: (v: number[]) => void }> = ({ percentiles, setPercentiles }) => {
+    const [text, setText] = useState(percentiles.join(', '));
+    useEffect(() => setText(percentiles.join(', ')), [percentiles]);
+
+    const apply = () => {
+        const next = normalizePercentiles(text.split(/[,\s]+/).filter(Boolean).map(Number));
+        setPercentiles(next);
+        setText(next.join(', '));
+    };
+
+    return (
+        <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label htmlFor="fan-percentiles">Fan Percentiles (%)</Label>
+            <Input
+                id="fan-percentiles"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={apply}
+                onKeyDown={(e) => { if (e.key === 'Enter') apply(); }}
+            />
+            <p className="text-xs text-muted-foreground">Lower edge of each band, e.g. 5, 10, 25 shades 5–95, 10–90 and 25–75.</p>
+        </div>
+    );
+};
+
+// --- LUMP SUM SCHEDULE COMPONENT --- //
+
+const LumpSumSchedule: React.FC<{ lumpSums: LumpSum[]; setLumpSums: (v: LumpSum[]) => void; maxYear: number }> = ({ lumpSums, setLumpSums, maxYear }) => {
+    const update = (index: number, patch: Partial<LumpSum>) => {
+        setLumpSums(lumpSums.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+    };
+    const add = () => {
+        const lastYear = lumpSums.length > 0 ? lumpSums[lumpSums.length - 1].year : 0;
+        setLumpSums([...lumpSums, { label: `Lump sum ${lumpSums.length + 1}`, amount: 500000, year: Math.min(maxYear, lastYear + 1) }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <Label>Lump Sums</Label>
+            {lumpSums.map((l, index) => (
+                <div key={index} className="grid grid-cols-[1fr_7rem_4rem_auto] gap-1 items-center">
+                    <Input aria-label="Lump sum label" value={l.label} onChange={(e) => update(index, { label: e.target.value })} />
+                    <Input aria-label="Lump sum amount" type="number" min={0} step={100000} value={l.amount} onChange={(e) => update(index, { amount: Math.max(0, Number(e.target.value)) })} />
+                    <Input aria-label="Lump sum deposit year" type="number" min={1} max={maxYear} step={1} value={l.year} onChange={(e) => update(index, { year: Math.max(1, Math.round(Number(e.target.value))) })} />
+                    <Button variant="ghost" size="icon" aria-label="Remove lump sum" onClick={() => setLumpSums(lumpSums.filter((_, i) => i !== index))}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={add}>Add Lump Sum</Button>
+        </div>
+    );
+};
+
 // --- REUSABLE METRIC DISPLAY COMPONENT --- //
 
 const MetricDisplay: React.FC<{ label: string; value: string }> = ({ label, value }) => (
@@ -77,10 +205,79 @@ const ParametersPanel: React.FC<ParametersPanelProps> = (props) => {
                 <div>
                     <h3 className="text-md font-semibold mb-2">Projection Settings</h3>
                      <div className="space-y-2">
-                        <Parameter label="Lump sum Investment" value={props.lumpSumInvestment} setValue={props.setLumpSumInvestment} min={0} max={10000000} step={100000} />    
+                        <LumpSumSchedule lumpSums={props.lumpSums} setLumpSums={props.setLumpSums} maxYear={props.projectionYears} />
                         <Parameter label="Current Age" value={props.age} setValue={props.setAge} min={18} max={70} step={1} />
                         <Parameter label="Projection Years" value={props.projectionYears} setValue={props.setProjectionYears} min={5} max={50} step={1} />
-                        <Parameter label="Best/Worst Case Percentile (%)" value={props.percentile} setValue={props.setPercentile} min={1} max={25} step={1} />
+                        <PercentileList percentiles={props.percentiles} setPercentiles={props.setPercentiles} />
+                    </div>
+                </div>
+                <div>
+                    <h3 className="text-md font-semibold mb-2">Inflation &amp; Growth</h3>
+                    <div className="space-y-2">
+                        <Parameter label="Inflation Rate (% p.a.)" value={props.inflationRate} setValue={props.setInflationRate} min={0} max={15} step={0.25} />
+                        <Parameter label="Inflation Uncertainty (% p.a.)" value={props.inflationVolatility} setValue={props.setInflationVolatility} min={0} max={10} step={0.25} />
+                        <Parameter label="Contribution Growth (% p.a.)" value={props.contributionGrowth} setValue={props.setContributionGrowth} min={0} max={15} step={0.5} />
+                        <Choice
+                            label="Contribution Frequency"
+                            value={props.timeStep}
+                            setValue={(v) => props.setTimeStep(v as TimeStep)}
+                            options={[
+                                { value: 'annual', label: 'Annual' },
+                                { value: 'quarterly', label: 'Quarterly' },
+                                { value: 'monthly', label: 'Monthly' },
+                            ]}
+                        />
+                        <Choice
+                            label="Contribution Timing"
+                            value={props.contributionTiming}
+                            setValue={(v) => props.setContributionTiming(v as ContributionTiming)}
+                            options={[
+                                { value: 'begin', label: 'Beginning of period' },
+                                { value: 'end', label: 'End of period' },
+                            ]}
+                        />
+                    </div>
+                </div>
+                <div>
+                    <h3 className="text-md font-semibold mb-2">Retirement</h3>
+                    <div className="space-y-2">
+                        <Parameter label="Retirement Age" value={props.retirementAge} setValue={props.setRetirementAge} min={40} max={80} step={1} />
+                        <Parameter label="Annual Withdrawal" value={props.annualWithdrawal} setValue={props.setAnnualWithdrawal} min={0} max={10000000} step={50000} />
+                        <Parameter label="Withdrawal Increase (% p.a.)" value={props.withdrawalGrowth} setValue={props.setWithdrawalGrowth} min={0} max={10} step={0.5} />
+                    </div>
+                </div>
+                <div>
+                    <h3 className="text-md font-semibold mb-2">Projection Method</h3>
+                    <div className="space-y-2">
+                        {props.simulationRequired && (
+                            <p className="text-xs text-muted-foreground">Withdrawals fall within the horizon, so the drawdown is projected with Monte Carlo.</p>
+                        )}
+                        <Choice
+                            label="Method"
+                            value={props.projectionMethod}
+                            setValue={(v) => props.setProjectionMethod(v as ProjectionMethod)}
+                            options={[
+                                { value: 'analytical', label: 'Semi-analytical (lognormal fit)' },
+                                { value: 'monteCarlo', label: 'Monte Carlo' },
+                                { value: 'overlay', label: 'Semi-analytical + Monte Carlo overlay' },
+                                { value: 'bootstrap', label: 'Historical bootstrap' },
+                            ]}
+                        />
+                        <Choice
+                            label="Return Model"
+                            value={props.returnModel}
+                            setValue={(v) => props.setReturnModel(v as ReturnModel)}
+                            options={[
+                                { value: 'normal', label: 'Arithmetic-normal' },
+                                { value: 'lognormal', label: 'Lognormal gross' },
+                            ]}
+                        />
+                        {(props.projectionMethod !== 'analytical' || props.simulationRequired) && (
+                            <>
+                                <Parameter label="Simulation Paths" value={props.numPaths} setValue={(v) => props.setNumPaths(clampNumPaths(v))} min={SIMULATION_PATHS.min} max={SIMULATION_PATHS.max} step={1000} />
+                                <Parameter label="Random Seed" value={props.seed} setValue={(v) => props.setSeed(clampSeed(v))} min={SIMULATION_SEED.min} max={SIMULATION_SEED.max} step={1} />
+                            </>
+                        )}
                     </div>
                 </div>
             </CardContent>
@@ -1,59 +1,353 @@
 import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Pencil, Trash2, X } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ASSET_CLASSES, AssetClass, DEFAULT_ASSET_CLASS_VOLATILITY, positionVolatility } from '@/lib/risk';
+import { FUND_TYPES, FundType, inferFundType, positionFundType } from '@/lib/tax';
+import { createPositionId, PositionErrors, validatePosition } from '@/lib/positions';
+import { BUILT_IN_FUND_CATALOG, CatalogFund, parseFundCatalogCsv, searchFundCatalog } from '@/lib/fundCatalog';
 
 export interface Position {
+    id: string;          // Stable identifier, kept across edits and reordering
     symbol: string;
     expectedReturn: number; // as a percentage, e.g., 8 for 8%
     assetClass: string;
     investmentAmount: number;
+    volatility?: number; // as a percentage, e.g., 16 for 16%; defaults to the asset class volatility
+    startYear?: number;  // First projection year the position is contributed to; defaults to 1
+    endYear?: number;    // Last projection year it is contributed to (e.g. end of an SSF holding period); defaults to the horizon
+    contributionGrowth?: number; // as a percentage per year; defaults to the scenario's contribution growth
+    fundType?: FundType; // Tax treatment; inferred from the symbol when not set
+    expenseRatio?: number; // Annual expense ratio (TER) as a percentage, e.g. 1.5 for 1.5%; defaults to 0
+    frontLoad?: number;  // Sales charge on each contribution as a percentage; defaults to 0
+    backLoad?: number;   // Redemption fee on withdrawals as a percentage; defaults to 0
 }
 
+/**
+ * A position as typed into the form. Numbers stay strings until the draft is saved,
+ * so half-typed or invalid values can be shown back with an error.
+ */
+interface PositionDraft {
+    symbol: string;
+    assetClass: string;
+    fundType: FundType | 'auto';
+    investmentAmount: string;
+    expectedReturn: string;
+    volatility: string;
+    startYear: string;
+    endYear: string;
+    contributionGrowth: string;
+    expenseRatio: string;
+    frontLoad: string;
+    backLoad: string;
+}
+
+type NumberField = 'investmentAmount' | 'expectedReturn' | 'volatility' | 'contributionGrowth' | 'startYear' | 'endYear'
+    | 'expenseRatio' | 'frontLoad' | 'backLoad';
+
+// Number inputs of the position form; optional fields may be left blank to use the defaults
+const NUMBER_FIELDS: { name: NumberField; label: string; placeholder: string; optional?: boolean }[] = [
+    { name: 'investmentAmount', label: 'Investment Amount', placeholder: 'e.g., 100000' },
+    { name: 'expectedReturn', label: 'Expected Return (%)', placeholder: 'e.g., 8' },
+    { name: 'volatility', label: 'Volatility (%)', placeholder: 'Asset class default', optional: true },
+    { name: 'contributionGrowth', label: 'Contribution Growth (% p.a.)', placeholder: 'Scenario default', optional: true },
+    { name: 'startYear', label: 'First Contribution Year', placeholder: '1', optional: true },
+    { name: 'endYear', label: 'Last Contribution Year', placeholder: 'Until retirement', optional: true },
+    { name: 'expenseRatio', label: 'Expense Ratio (% p.a.)', placeholder: '0', optional: true },
+    { name: 'frontLoad', label: 'Front-End Load (%)', placeholder: '0', optional: true },
+    { name: 'backLoad', label: 'Back-End Load (%)', placeholder: '0', optional: true },
+];
+
+const EMPTY_DRAFT: PositionDraft = {
+    symbol: '',
+    assetClass: 'Global Equity',
+    fundType: 'auto',
+    investmentAmount: '100000',
+    expectedReturn: '8',
+    volatility: String(DEFAULT_ASSET_CLASS_VOLATILITY['Global Equity']),
+    startYear: '',
+    endYear: '',
+    contributionGrowth: '',
+    expenseRatio: '',
+    frontLoad: '',
+    backLoad: '',
+};
+
+const toDraft = (pos: Position): PositionDraft => ({
+    symbol: pos.symbol,
+    assetClass: pos.assetClass,
+    fundType: pos.fundType ?? 'auto',
+    investmentAmount: String(pos.investmentAmount),
+    expectedReturn: String(pos.expectedReturn),
+    volatility: pos.volatility !== undefined ? String(pos.volatility) : '',
+    startYear: pos.startYear !== undefined ? String(pos.startYear) : '',
+    endYear: pos.endYear !== undefined ? String(pos.endYear) : '',
+    contributionGrowth: pos.contributionGrowth !== undefined ? String(pos.contributionGrowth) : '',
+    expenseRatio: pos.expenseRatio !== undefined ? String(pos.expenseRatio) : '',
+    frontLoad: pos.frontLoad !== undefined ? String(pos.frontLoad) : '',
+    backLoad: pos.backLoad !== undefined ? String(pos.backLoad) : '',
+});
+
+// Blank required numbers become NaN so validation reports them instead of reading them as zero.
+const parseRequired = (raw: string) => (raw.trim() === '' ? NaN : Number(raw));
+const parseOptional = (raw: string) => (raw.trim() === '' ? undefined : Number(raw));
+
+const fromDraft = (draft: PositionDraft, id: string): Position => ({
+    id,
+    symbol: draft.symbol.trim(),
+    assetClass: draft.assetClass,
+    fundType: draft.fundType === 'auto' ? undefined : draft.fundType,
+    investmentAmount: parseRequired(draft.investmentAmount),
+    expectedReturn: parseRequired(draft.expectedReturn),
+    volatility: parseOptional(draft.volatility),
+    startYear: parseOptional(draft.startYear),
+    endYear: parseOptional(draft.endYear),
+    contributionGrowth: parseOptional(draft.contributionGrowth),
+    expenseRatio: parseOptional(draft.expenseRatio),
+    frontLoad: parseOptional(draft.frontLoad),
+    backLoad: parseOptional(draft.backLoad),
+});
+
+// Pre-fills the draft from a catalog fund; amounts, contribution years and loads are left as typed.
+// The catalog fee is the fund's expense ratio.
+const applyCatalogFund = (draft: PositionDraft, fund: CatalogFund): PositionDraft => ({
+    ...draft,
+    symbol: fund.symbol,
+    assetClass: fund.assetClass,
+    fundType: fund.fundType,
+    expectedReturn: String(fund.expectedReturn),
+    volatility: String(fund.volatility),
+    expenseRatio: String(fund.fee),
+});
+
+// --- FORM FIELDS --- //
+
+interface PositionFieldsProps {
+    idPrefix: string; // Keeps input ids unique between the add form and an edited row
+    draft: PositionDraft;
+    setDraft: (draft: PositionDraft) => void;
+    errors: PositionErrors;
+    catalog?: CatalogFund[]; // Suggests funds while the symbol is typed when given
+}
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) => (
+    message ? <p className="text-xs text-red-600">{message}</p> : null
+);
+
+const PositionFields: React.FC<PositionFieldsProps> = ({ idPrefix, draft, setDraft, errors, catalog }) => {
+    const [showSuggestions, setShowSuggestions] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+    const suggestions = catalog && showSuggestions
+        ? searchFundCatalog(catalog, draft.symbol).filter((fund) => fund.symbol !== draft.symbol)
+        : [];
+
+    const handleSelectFund = (fund: CatalogFund) => {
+        setDraft(applyCatalogFund(draft, fund));
+        setShowSuggestions(false);
+    };
+
+    const handleSymbolKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (suggestions.length === 0) return;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const offset = e.key === 'ArrowDown' ? 1 : -1;
+            setHighlighted((highlighted + offset + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            handleSelectFund(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        } else if (e.key === 'Escape') {
+            setShowSuggestions(false);
+        }
+    };
+
+    const handleAssetClassChange = (value: string) => {
+        // Switching class resets volatility to that class's default; it stays editable.
+        setDraft({ ...draft, assetClass: value, volatility: String(DEFAULT_ASSET_CLASS_VOLATILITY[value as AssetClass] ?? '') });
+    };
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-symbol`}>Symbol</Label>
+                <div className="relative">
+                    <Input
+                        id={`${idPrefix}-symbol`}
+                        value={draft.symbol}
+                        onChange={(e) => { setDraft({ ...draft, symbol: e.target.value }); setShowSuggestions(true); setHighlighted(0); }}
+                        onFocus={() => setShowSuggestions(true)}
+                        onBlur={() => setShowSuggestions(false)}
+                        onKeyDown={handleSymbolKeyDown}
+                        placeholder={catalog ? 'Type a symbol or fund name' : 'e.g., VOO'}
+                        autoComplete="off"
+                        role="combobox"
+                        aria-expanded={suggestions.length > 0}
+                        aria-controls={`${idPrefix}-symbol-suggestions`}
+                    />
+                    {suggestions.length > 0 && (
+                        <ul id={`${idPrefix}-symbol-suggestions`} role="listbox" className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-md text-sm">
+                            {suggestions.map((fund, i) => (
+                                <li
+                                    key={fund.symbol}
+                                    role="option"
+                                    aria-selected={i === highlighted}
+                                    className={`cursor-pointer px-3 py-1 ${i === highlighted ? 'bg-muted' : ''}`}
+                                    // Selecting on mouse down keeps the input from blurring and closing the list first
+                                    onMouseDown={(e) => { e.preventDefault(); handleSelectFund(fund); }}
+                                    onMouseEnter={() => setHighlighted(i)}
+                                >
+                                    <div className="flex justify-between gap-2">
+                                        <span className="font-medium">{fund.symbol}</span>
+                                        <span className="text-xs text-muted-foreground">{fund.fundType} · TER {fund.fee}%</span>
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                        {fund.name} · {fund.assetClass} · {fund.expectedReturn}% / {fund.volatility}% vol
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+                <FieldError message={errors.symbol} />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-assetClass`}>Asset Class</Label>
+                <Select onValueChange={handleAssetClassChange} value={draft.assetClass}>
+                    <SelectTrigger id={`${idPrefix}-assetClass`}>
+                        <SelectValue placeholder="Select asset class" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {ASSET_CLASSES.map((assetClass) => (
+                            <SelectItem key={assetClass} value={assetClass}>{assetClass}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-fundType`}>Fund Type</Label>
+                <Select onValueChange={(v) => setDraft({ ...draft, fundType: v as FundType | 'auto' })} value={draft.fundType}>
+                    <SelectTrigger id={`${idPrefix}-fundType`}>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="auto">From symbol ({inferFundType(draft.symbol)})</SelectItem>
+                        {FUND_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            {NUMBER_FIELDS.map((field) => (
+                <div key={field.name} className="space-y-2">
+                    <Label htmlFor={`${idPrefix}-${field.name}`}>{field.label}</Label>
+                    <Input
+                        id={`${idPrefix}-${field.name}`}
+                        type="number"
+                        value={draft[field.name]}
+                        onChange={(e) => setDraft({ ...draft, [field.name]: e.target.value })}
+                        placeholder={field.placeholder}
+                    />
+                    <FieldError message={errors[field.name]} />
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// --- MAIN COMPONENT --- //
+
 interface PortfolioProps {
     positions: Position[];
     setPositions: (positions: Position[]) => void;
+    catalog: CatalogFund[];
+    setCatalog: (catalog: CatalogFund[]) => void;
 }
 
-const Portfolio: React.FC<PortfolioProps> = ({ positions, setPositions }) => {
-    const [newPosition, setNewPosition] = useState<Omit<Position, 'id'>>({
-        symbol: '',
-        expectedReturn: 8,
-        assetClass: 'Global Equity',
-        investmentAmount: 100000,
-    });
+const Portfolio: React.FC<PortfolioProps> = ({ positions, setPositions, catalog, setCatalog }) => {
+    const [newDraft, setNewDraft] = useState<PositionDraft>(EMPTY_DRAFT);
+    const [showNewErrors, setShowNewErrors] = useState(false); // Errors of the add form appear after the first attempt
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editDraft, setEditDraft] = useState<PositionDraft>(EMPTY_DRAFT);
+    const [removed, setRemoved] = useState<{ position: Position; index: number } | null>(null);
+    const [catalogFileName, setCatalogFileName] = useState('');
+    const [catalogErrors, setCatalogErrors] = useState<string[]>([]);
+
+    const newErrors = validatePosition(fromDraft(newDraft, ''), positions);
+    const editErrors = editingId ? validatePosition(fromDraft(editDraft, editingId), positions) : {};
+    const totalAmount = positions.reduce((acc, pos) => acc + pos.investmentAmount, 0);
 
     const handleAddPosition = () => {
-        if (newPosition.symbol && newPosition.investmentAmount > 0) {
-            setPositions([...positions, newPosition]);
-            // Reset form
-            setNewPosition({
-                symbol: '',
-                expectedReturn: 8,
-                assetClass: 'Global Equity',
-                investmentAmount: 100000,
-            });
+        if (Object.keys(newErrors).length > 0) {
+            setShowNewErrors(true);
+            return;
         }
+        setPositions([...positions, fromDraft(newDraft, createPositionId())]);
+        setNewDraft(EMPTY_DRAFT);
+        setShowNewErrors(false);
     };
 
-    const handleRemovePosition = (index: number) => {
-        const updatedPositions = positions.filter((_, i) => i !== index);
-        setPositions(updatedPositions);
+    const handleCatalogFile = async (file: File | undefined) => {
+        if (!file) return;
+        setCatalogFileName(file.name);
+        try {
+            const result = parseFundCatalogCsv(await file.text());
+            setCatalogErrors(result.errors);
+            if (result.funds) setCatalog(result.funds);
+        } catch (error) {
+            // The current catalog stays in use when the file cannot be read
+            setCatalogErrors([`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`]);
+        }
     };
-    
-    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const { name, value } = e.target;
-        setNewPosition(prev => ({ ...prev, [name]: name === 'symbol' ? value : Number(value) }));
+
+    const handleResetCatalog = () => {
+        setCatalog(BUILT_IN_FUND_CATALOG);
+        setCatalogFileName('');
+        setCatalogErrors([]);
+    };
+
+    const handleStartEdit = (pos: Position) => {
+        setEditingId(pos.id);
+        setEditDraft(toDraft(pos));
     };
 
-    const handleSelectChange = (value: string) => {
-        setNewPosition(prev => ({ ...prev, assetClass: value }));
+    const handleSaveEdit = () => {
+        if (!editingId || Object.keys(editErrors).length > 0) return;
+        setPositions(positions.map((pos) => (pos.id === editingId ? fromDraft(editDraft, editingId) : pos)));
+        setEditingId(null);
+    };
+
+    const handleRemovePosition = (id: string) => {
+        const index = positions.findIndex((pos) => pos.id === id);
+        if (index < 0) return;
+        setRemoved({ position: positions[index], index });
+        setPositions(positions.filter((pos) => pos.id !== id));
+        if (editingId === id) setEditingId(null);
+    };
+
+    const handleUndoRemove = () => {
+        if (!removed) return;
+        const index = Math.min(removed.index, positions.length);
+        setPositions([...positions.slice(0, index), removed.position, ...positions.slice(index)]);
+        setRemoved(null);
+    };
+
+    const handleMove = (index: number, offset: -1 | 1) => {
+        const target = index + offset;
+        if (target < 0 || target >= positions.length) return;
+        const reordered = [...positions];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        setPositions(reordered);
     };
 
     const currencyFormatter = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'THB', minimumFractionDigits: 0 }).format(value);
+    const formatFees = (pos: Position) => {
+        const loads = pos.frontLoad || pos.backLoad ? ` + ${pos.frontLoad ?? 0}/${pos.backLoad ?? 0}%` : '';
+        return `${pos.expenseRatio ?? 0}%${loads}`;
+    };
+    const formatWeight = (amount: number) => (totalAmount > 0 ? `${((amount / totalAmount) * 100).toFixed(1)}%` : '-');
 
     return (
         <Card className="card-compact">
@@ -61,75 +355,123 @@ const Portfolio: React.FC<PortfolioProps> = ({ positions, setPositions }) => {
                 <CardTitle>Portfolio Positions</CardTitle>
             </CardHeader>
             <CardContent>
+                {removed && (
+                    <div className="mb-2 flex items-center justify-between rounded-md border bg-muted px-3 py-1 text-sm">
+                        <span>Removed {removed.position.symbol}.</span>
+                        <div className="flex items-center gap-1">
+                            <Button variant="outline" size="sm" onClick={handleUndoRemove}>Undo</Button>
+                            <Button variant="ghost" size="icon" aria-label="Dismiss" onClick={() => setRemoved(null)}>
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </div>
+                )}
                 <div className="mb-4 rounded-md border">
                     <Table>
                         <TableHeader>
                             <TableRow>
                                 <TableHead className="font-medium p-2">Symbol</TableHead>
                                 <TableHead className="p-2">Asset Class</TableHead>
+                                <TableHead className="p-2">Fund Type</TableHead>
                                 <TableHead className="text-right p-2">Amount</TableHead>
+                                <TableHead className="text-right p-2">Weight</TableHead>
                                 <TableHead className="text-right p-2">Exp. Return</TableHead>
+                                <TableHead className="text-right p-2">Volatility</TableHead>
+                                <TableHead className="text-right p-2">Years</TableHead>
+                                <TableHead className="text-right p-2">Growth</TableHead>
+                                <TableHead className="text-right p-2">Fees</TableHead>
                                 <TableHead className="text-right p-2">Action</TableHead>
                             </TableRow>
                         </TableHeader>
                         <TableBody>
                             {positions.length > 0 ? (
                                 positions.map((pos, index) => (
-                                    <TableRow key={index}>
-                                        <TableCell className="font-medium p-2">{pos.symbol || '-'}</TableCell>
-                                        <TableCell className="p-2">{pos.assetClass}</TableCell>
-                                        <TableCell className="text-right p-2">{currencyFormatter(pos.investmentAmount)}</TableCell>
-                                        <TableCell className="text-right p-2">{pos.expectedReturn}%</TableCell>
-                                        <TableCell className="text-right p-2">
-                                            <Button variant="ghost" size="icon" onClick={() => handleRemovePosition(index)}>
-                                                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/><line x1="10" x2="10" y1="11" y2="17"/><line x1="14" x2="14" y1="11" y2="17"/></svg>
-                                            </Button>
-                                        </TableCell>
-                                    </TableRow>
+                                    pos.id === editingId ? (
+                                        <TableRow key={pos.id}>
+                                            <TableCell colSpan={11} className="p-2">
+                                                <PositionFields idPrefix={`edit-${pos.id}`} draft={editDraft} setDraft={setEditDraft} errors={editErrors} />
+                                                <div className="flex justify-end gap-2 mt-2">
+                                                    <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+                                                    <Button size="sm" onClick={handleSaveEdit} disabled={Object.keys(editErrors).length > 0}>Save</Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ) : (
+                                        <TableRow key={pos.id}>
+                                            <TableCell className="font-medium p-2">{pos.symbol || '-'}</TableCell>
+                                            <TableCell className="p-2">{pos.assetClass}</TableCell>
+                                            <TableCell className="p-2">{positionFundType(pos)}</TableCell>
+                                            <TableCell className="text-right p-2">{currencyFormatter(pos.investmentAmount)}</TableCell>
+                                            <TableCell className="text-right p-2">{formatWeight(pos.investmentAmount)}</TableCell>
+                                            <TableCell className="text-right p-2">{pos.expectedReturn}%</TableCell>
+                                            <TableCell className="text-right p-2">{+(positionVolatility(pos) * 100).toFixed(2)}%</TableCell>
+                                            <TableCell className="text-right p-2">{pos.startYear ?? 1}–{pos.endYear ?? 'end'}</TableCell>
+                                            <TableCell className="text-right p-2">{pos.contributionGrowth !== undefined ? `${pos.contributionGrowth}%` : 'Default'}</TableCell>
+                                            <TableCell className="text-right p-2" title="Expense ratio, front-end / back-end load">{formatFees(pos)}</TableCell>
+                                            <TableCell className="text-right p-2 whitespace-nowrap">
+                                                <Button variant="ghost" size="icon" aria-label={`Move ${pos.symbol} up`} disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                                                    <ArrowUp className="h-4 w-4" />
+                                                </Button>
+                                                <Button variant="ghost" size="icon" aria-label={`Move ${pos.symbol} down`} disabled={index === positions.length - 1} onClick={() => handleMove(index, 1)}>
+                                                    <ArrowDown className="h-4 w-4" />
+                                                </Button>
+                                                <Button variant="ghost" size="icon" aria-label={`Edit ${pos.symbol}`} onClick={() => handleStartEdit(pos)}>
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                                <Button variant="ghost" size="icon" aria-label={`Remove ${pos.symbol}`} onClick={() => handleRemovePosition(pos.id)}>
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    )
                                 ))
                             ) : (
                                 <TableRow>
-                                    <TableCell colSpan={5} className="h-24 text-center">
+                                    <TableCell colSpan={11} className="h-24 text-center">
                                         No positions added yet.
                                     </TableCell>
                                 </TableRow>
                             )}
                         </TableBody>
+                        {positions.length > 0 && (
+                            <TableFooter>
+                                <TableRow>
+                                    <TableCell colSpan={3} className="font-medium p-2">Total</TableCell>
+                                    <TableCell className="text-right font-medium p-2">{currencyFormatter(totalAmount)}</TableCell>
+                                    <TableCell className="text-right font-medium p-2">{totalAmount > 0 ? '100.0%' : '-'}</TableCell>
+                                    <TableCell colSpan={6} />
+                                </TableRow>
+                            </TableFooter>
+                        )}
                     </Table>
                 </div>
 
                 <div className="border-t pt-4">
                     <h3 className="text-md font-semibold mb-2">Add New Position</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        <div className="space-y-2">
-                            <Label htmlFor="symbol">Symbol</Label>
-                            <Input id="symbol" name="symbol" value={newPosition.symbol} onChange={handleInputChange} placeholder="e.g., VOO" />
-                        </div>
-                        <div className="space-y-2">
-                            <Label htmlFor="assetClass">Asset Class</Label>
-                            <Select onValueChange={handleSelectChange} value={newPosition.assetClass}>
-                                <SelectTrigger id="assetClass">
-                                    <SelectValue placeholder="Select asset class" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                    <SelectItem value="Cash">Cash</SelectItem>
-                                    <SelectItem value="Fixed Income">Fixed Income</SelectItem>
-                                    <SelectItem value="Local Equity">Local Equity</SelectItem>
-                                    <SelectItem value="Global Equity">Global Equity</SelectItem>
-                                    <SelectItem value="Alternative">Alternative</SelectItem>
-                                </SelectContent>
-                            </Select>
-                        </div>
-                        <div className="space-y-2">
-                            <Label htmlFor="investmentAmount">Investment Amount</Label>
-                            <Input id="investmentAmount" name="investmentAmount" type="number" value={newPosition.investmentAmount} onChange={handleInputChange} placeholder="e.g., 100000" />
-                        </div>
-                        <div className="space-y-2">
-                            <Label htmlFor="expectedReturn">Expected Return (%)</Label>
-                            <Input id="expectedReturn" name="expectedReturn" type="number" value={newPosition.expectedReturn} onChange={handleInputChange} placeholder="e.g., 8" />
+                    <PositionFields idPrefix="new" draft={newDraft} setDraft={setNewDraft} errors={showNewErrors ? newErrors : {}} catalog={catalog} />
+                    <Button onClick={handleAddPosition} className="w-full mt-4 bg-black text-white hover:bg-gray-800">Add Position</Button>
+                    <div className="mt-4 space-y-2">
+                        <Label htmlFor="fund-catalog-file">Fund Catalog (CSV)</Label>
+                        <div className="flex items-center gap-2">
+                            <Input id="fund-catalog-file" type="file" accept=".csv,text/csv" onChange={(e) => handleCatalogFile(e.target.files?.[0])} />
+                            {catalog !== BUILT_IN_FUND_CATALOG && (
+                                <Button variant="outline" size="sm" onClick={handleResetCatalog}>Use Built-in</Button>
+                            )}
                         </div>
+                        <p className="text-xs text-muted-foreground">
+                            {catalog === BUILT_IN_FUND_CATALOG ? 'Built-in catalog' : catalogFileName || 'Imported catalog'}: {catalog.length} funds.
+                            Columns: symbol, name, assetClass, fundType, fee, expectedReturn, volatility (percentages).
+                        </p>
+                        {catalogErrors.length > 0 && (
+                            <div className="text-xs text-red-600">
+                                <p className="font-medium">Could not load {catalogFileName || 'the file'}:</p>
+                                <ul className="list-disc pl-5">
+                                    {catalogErrors.slice(0, 5).map((error) => <li key={error}>{error}</li>)}
+                                </ul>
+                                {catalogErrors.length > 5 && <p>…and {catalogErrors.length - 5} more.</p>}
+                            </div>
+                        )}
                     </div>
-                    <Button onClick={handleAddPosition} className="w-full mt-4 bg-black text-white hover:bg-gray-800" disabled={!newPosition.symbol.trim()}>Add Position</Button>
                 </div>
             </CardContent>
         </Card>
@@ -1,21 +1,163 @@
 import React, { useState } from 'react';
-import { ComposedChart, CartesianGrid, XAxis, YAxis, Tooltip, Legend, Line, Bar, Area } from 'recharts';
+import { ComposedChart, CartesianGrid, XAxis, YAxis, Tooltip, Legend, Line, Bar, Area, ReferenceDot } from 'recharts';
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CentralLine, centralValue, LumpSum, YearlyData } from '@/lib/projection';
+import { GOAL_PRIORITY_COLORS, GoalPriority } from './GoalsPanel';
+
+// Colors cycled across the per-deposit lump sum bars
+const LUMP_SUM_COLORS = ['#10b981', '#059669', '#0d9488', '#14b8a6', '#047857'];
+
+// One color per compared scenario
+const COMPARISON_COLORS = ['#db2777', '#2563eb', '#16a34a', '#d97706'];
+
+// One color per stress scenario path
+const STRESS_COLORS = ['#dc2626', '#7c3aed', '#ea580c', '#0f766e', '#4b5563'];
+
+// Colors cycled across the stacked value layers
+const STACK_COLORS = ['#6366f1', '#0ea5e9', '#14b8a6', '#f59e0b', '#ec4899', '#8b5cf6', '#84cc16'];
+
+/**
+ * What the chart shows: the fan, or the value at expected return stacked by position or asset class.
+ */
+type ChartView = 'fan' | 'position' | 'assetClass';
+
+const CHART_VIEW_LABELS: Record<ChartView, string> = {
+    fan: 'Fan',
+    position: 'By Position',
+    assetClass: 'By Asset Class',
+};
+
+export const CENTRAL_LINE_LABELS: Record<CentralLine, string> = {
+    median: 'Median',
+    mean: 'Mean',
+    deterministic: 'At Expected Return',
+};
+
+/**
+ * Picks the series drawn as the central line; shared by the chart and the table.
+ */
+export const CentralLineSelect: React.FC<{ value: CentralLine; onChange: (v: CentralLine) => void; className?: string }> = ({ value, onChange, className }) => (
+    <Select value={value} onValueChange={(v) => onChange(v as CentralLine)}>
+        <SelectTrigger className={className} aria-label="Central line">
+            <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+            {(Object.keys(CENTRAL_LINE_LABELS) as CentralLine[]).map((line) => (
+                <SelectItem key={line} value={line}>{CENTRAL_LINE_LABELS[line]}</SelectItem>
+            ))}
+        </SelectContent>
+    </Select>
+);
+
+/**
+ * Merges the yearly data of several scenarios into one row per x value (year or age),
+ * so scenarios with different ages or horizons line up on the same axis.
+ */
+const mergeComparisons = (comparisons: { name: string; data: YearlyData[] }[], xAxisKey: 'year' | 'age') => {
+    const rows = new Map<number, Record<string, number | number[] | undefined>>();
+    comparisons.forEach((c, i) => {
+        for (const d of c.data) {
+            const row = rows.get(d[xAxisKey]) ?? { [xAxisKey]: d[xAxisKey] };
+            row[`cmp${i}Median`] = d.medianCase;
+            row[`cmp${i}Band`] = [d.worstCase, d.bestCase];
+            rows.set(d[xAxisKey], row);
+        }
+    });
+    return Array.from(rows.entries()).sort(([a], [b]) => a - b).map(([, row]) => row);
+};
+
+/**
+ * Splits each year's value at expected return into stacked layers: one per contribution stream, or one
+ * per asset class, plus the lump sums. The layers add up to `deterministicCase`.
+ */
+const stackLayers = (data: YearlyData[], streams: { label: string; assetClass: string }[], by: 'position' | 'assetClass') => {
+    const groups = by === 'position'
+        ? streams.map((s, i) => ({ label: s.label, members: [i] }))
+        : Array.from(new Set(streams.map((s) => s.assetClass))).map((assetClass) => ({
+            label: assetClass,
+            members: streams.flatMap((s, i) => (s.assetClass === assetClass ? [i] : [])),
+        }));
+    const layers = groups.map((g, i) => ({ key: `layer${i}`, label: g.label }));
+    const hasLumpSums = data.some((d) => d.lumpSumValue > 0);
+    if (hasLumpSums) layers.push({ key: 'layerLumpSums', label: 'Lump Sums' });
+
+    const rows = data.map((d) => {
+        const row: Record<string, number> = { year: d.year, age: d.age };
+        groups.forEach((g, i) => {
+            row[`layer${i}`] = g.members.reduce((acc, j) => acc + (d.streamValues[j] ?? 0), 0);
+        });
+        if (hasLumpSums) row.layerLumpSums = d.lumpSumValue;
+        return row;
+    });
+    return { layers, rows };
+};
 
 interface ProjectionChartProps {
-    projectionData: any[];
+    projectionData: YearlyData[];
+    overlayData?: YearlyData[];          // Optional Monte Carlo yearly data drawn over the analytical fan
+    lumpSums: LumpSum[];          // Scheduled deposits, one bar series each
+    streams: { label: string; assetClass: string }[]; // Contribution streams in `streamValues` order, for the stacked views
+    isRealTerms: boolean;         // Whether the data is expressed in today's money
+    setIsRealTerms: (v: boolean) => void;
+    isAge: boolean;               // Whether the x-axis shows age instead of year
+    setIsAge: (v: boolean) => void;
+    centralLine: CentralLine;     // Series drawn as the projected value
+    setCentralLine: (v: CentralLine) => void;
+    goalMarkers: { label: string; year: number; age: number; value: number; priority: GoalPriority }[]; // Values in the chart's current terms; later years are listed below the plot
+    comparisons?: { name: string; data: YearlyData[] }[]; // When set, the chart shows these scenarios' medians and bands instead
+    stressPaths?: { name: string; values: number[] }[]; // Stress test values per year, in the chart's current terms, drawn over the fan
     currencyFormatter: (value: number) => string;
     compactNumberFormatter: (value: number) => string;
 }
 
-const ProjectionChart: React.FC<ProjectionChartProps> = ({ projectionData, currencyFormatter, compactNumberFormatter }) => {
-    const [isAge, setIsAge] = useState(false);
+const ProjectionChart: React.FC<ProjectionChartProps> = ({ projectionData, overlayData, lumpSums, streams, isRealTerms, setIsRealTerms, isAge, setIsAge, centralLine, setCentralLine, goalMarkers, comparisons, stressPaths, currencyFormatter, compactNumberFormatter }) => {
+    const [view, setView] = useState<ChartView>('fan');
     const xAxisKey = isAge ? 'age' : 'year';
+    const fanPercentiles = projectionData[0]?.bands.map((b) => b.p) ?? [];
+    const stacked = !comparisons && view !== 'fan' ? stackLayers(projectionData, streams, view) : null;
+    const markersOnChart = goalMarkers.filter((g) => g.year <= projectionData.length);
+    const markersBeyond = goalMarkers.filter((g) => g.year > projectionData.length);
+
+    // Compared scenarios and overlay series are merged into shared rows so they use the same x-axis.
+    const chartData = comparisons
+        ? mergeComparisons(comparisons, xAxisKey)
+        : stacked
+        ? stacked.rows
+        : overlayData
+        ? projectionData.map((d, i) => ({
+            ...d,
+            mcWorstCase: overlayData[i]?.worstCase,
+            mcMedianCase: overlayData[i]?.medianCase,
+            mcBestCase: overlayData[i]?.bestCase,
+        }))
+        : projectionData;
 
     return (
         <div>
             <div className="flex justify-end items-center space-x-2 mb-4">
+                {!comparisons && (
+                    <Select value={view} onValueChange={(v) => setView(v as ChartView)}>
+                        <SelectTrigger className="h-8 w-36" aria-label="Chart view">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(CHART_VIEW_LABELS) as ChartView[]).map((v) => (
+                                <SelectItem key={v} value={v}>{CHART_VIEW_LABELS[v]}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+                {!comparisons && !stacked && <CentralLineSelect value={centralLine} onChange={setCentralLine} className="h-8 w-44 mr-4" />}
+                {stacked && <span className="text-xs text-muted-foreground mr-4">At expected return</span>}
+                <Label htmlFor="real-switch" className={!isRealTerms ? 'font-semibold' : 'text-muted-foreground'}>Nominal</Label>
+                <Switch
+                    id="real-switch"
+                    checked={isRealTerms}
+                    onCheckedChange={setIsRealTerms}
+                />
+                <Label htmlFor="real-switch" className={isRealTerms ? 'font-semibold pr-4' : 'text-muted-foreground pr-4'}>Today&apos;s Money</Label>
                 <Label htmlFor="axis-switch" className={!isAge ? 'font-semibold' : 'text-muted-foreground'}>Year</Label>
                 <Switch
                     id="axis-switch"
@@ -27,28 +169,122 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projectionData, curre
             <ComposedChart
                 width={600}
                 height={450}
-                data={projectionData}
+                data={chartData}
                 margin={{ top: 5, right: 20, left: 30, bottom: 5 }}
             >
                 <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
                 <XAxis dataKey={xAxisKey} label={{ value: xAxisKey === 'year' ? 'Year' : 'Age', position: 'insideBottom', offset: -5 }} />
-                <YAxis tickFormatter={compactNumberFormatter} label={{ value: 'THB', angle: -90, position: 'insideLeft' }} />
-                <Tooltip formatter={(value: number) => currencyFormatter(value)} labelFormatter={(label) => `${xAxisKey === 'year' ? 'Year' : 'Age'}: ${label}`} />
+                <YAxis tickFormatter={compactNumberFormatter} label={{ value: isRealTerms ? "THB (today's money)" : 'THB', angle: -90, position: 'insideLeft' }} />
+                <Tooltip formatter={(value: number | number[]) => (Array.isArray(value) ? value.map(currencyFormatter).join(' – ') : currencyFormatter(value))} labelFormatter={(label) => `${xAxisKey === 'year' ? 'Year' : 'Age'}: ${label}`} />
                 <Legend />
-                {/* Projected portfolio value */}
-                <Area type="monotone" dataKey="projection" fill="#db2777" stroke="#db2777" name="Projected Value" fillOpacity={0.6} />
-                
-                {/* Stacked contribution areas: annual vs lump sum */}
-                <Area type="monotone" dataKey="totalLumpSumInvestment" stackId="contrib" fill="#a78bfa" stroke="#a78bfa" name="Lump Sum (Cumulative)" fillOpacity={1.0} />
-                <Area type="monotone" dataKey="totalAnnualInvestment" stackId="contrib" fill="#6366f1" stroke="#6366f1" name="Annual Contributions (Cumulative)" fillOpacity={1.0} />
-
-                {/* fanchart*/}
-                <Line type="monotone" dataKey="bestCase" stroke="#34d399" strokeWidth={2} dot={false} strokeDasharray="4 4" name="Best Case" />
-                <Line type="monotone" dataKey="worstCase" stroke="#f87171" strokeWidth={2} dot={false} strokeDasharray="4 4" name="Worst Case" />
-
-                <Bar dataKey="lumpSum" stackId="bar" barSize={20} fill="#10b981" name="Lump Sum (Year 1)" />
-                <Bar dataKey="investment" stackId="bar" barSize={20} fill="#34d399" name="Annual Investment" />
+                {comparisons ? (
+                    <>
+                        {/* Scenario comparison: worst-best band and median per scenario */}
+                        {comparisons.map((c, i) => (
+                            <Area key={`band-${i}`} type="monotone" dataKey={`cmp${i}Band`} fill={COMPARISON_COLORS[i % COMPARISON_COLORS.length]} stroke="none" fillOpacity={0.15} name={`${c.name} (Worst–Best)`} />
+                        ))}
+                        {comparisons.map((c, i) => (
+                            <Line key={`median-${i}`} type="monotone" dataKey={`cmp${i}Median`} stroke={COMPARISON_COLORS[i % COMPARISON_COLORS.length]} strokeWidth={2} dot={false} name={`${c.name} (Median)`} />
+                        ))}
+                    </>
+                ) : stacked ? (
+                    <>
+                        {/* Value at expected return, stacked by position or asset class */}
+                        {stacked.layers.map((layer, i) => (
+                            <Area
+                                key={layer.key}
+                                type="monotone"
+                                dataKey={layer.key}
+                                stackId="value"
+                                fill={STACK_COLORS[i % STACK_COLORS.length]}
+                                stroke={STACK_COLORS[i % STACK_COLORS.length]}
+                                fillOpacity={0.7}
+                                name={layer.label}
+                            />
+                        ))}
+                    </>
+                ) : (
+                    <>
+                        {/* Stacked contribution areas: annual vs lump sum */}
+                        <Area type="monotone" dataKey="totalLumpSumInvestment" stackId="contrib" fill="#a78bfa" stroke="#a78bfa" name="Lump Sum (Cumulative)" fillOpacity={1.0} />
+                        <Area type="monotone" dataKey="totalAnnualInvestment" stackId="contrib" fill="#6366f1" stroke="#6366f1" name="Annual Contributions (Cumulative)" fillOpacity={1.0} />
+
+                        {/* Fan: nested bands, widest first, each drawn over the last so inner bands get darker */}
+                        {fanPercentiles.map((p, i) => (
+                            <Area
+                                key={`band-${p}`}
+                                type="monotone"
+                                dataKey={(d: YearlyData) => [d.bands[i]?.low, d.bands[i]?.high]}
+                                fill="#db2777"
+                                stroke="none"
+                                fillOpacity={0.15}
+                                name={`P${p}–P${100 - p}`}
+                            />
+                        ))}
+
+                        {/* Projected portfolio value */}
+                        <Line type="monotone" dataKey={(d: YearlyData) => centralValue(d, centralLine)} stroke="#9d174d" strokeWidth={2} dot={false} name={`Projected Value (${CENTRAL_LINE_LABELS[centralLine]})`} />
+
+                        {/* Monte Carlo percentiles for comparison with the analytical fan */}
+                        {overlayData && (
+                            <>
+                                <Line type="monotone" dataKey="mcBestCase" stroke="#0ea5e9" strokeWidth={2} dot={false} strokeDasharray="1 3" name="Best Case (MC)" />
+                                <Line type="monotone" dataKey="mcMedianCase" stroke="#0369a1" strokeWidth={2} dot={false} strokeDasharray="1 3" name="Median (MC)" />
+                                <Line type="monotone" dataKey="mcWorstCase" stroke="#f59e0b" strokeWidth={2} dot={false} strokeDasharray="1 3" name="Worst Case (MC)" />
+                            </>
+                        )}
+
+                        {/* Deterministic stress test paths */}
+                        {stressPaths?.map((path, i) => (
+                            <Line
+                                key={`stress-${i}`}
+                                type="monotone"
+                                dataKey={(d: YearlyData) => path.values[d.year - 1]}
+                                stroke={STRESS_COLORS[i % STRESS_COLORS.length]}
+                                strokeWidth={2}
+                                dot={false}
+                                strokeDasharray="6 3"
+                                name={`${path.name} (Stress)`}
+                            />
+                        ))}
+
+                        {lumpSums.map((l, i) => (
+                            <Bar
+                                key={i}
+                                dataKey={(d) => d.lumpSumBreakdown[i]}
+                                stackId="bar"
+                                barSize={20}
+                                fill={LUMP_SUM_COLORS[i % LUMP_SUM_COLORS.length]}
+                                name={`${l.label || 'Lump Sum'} (Year ${l.year})`}
+                            />
+                        ))}
+                        {/* Goal markers */}
+                        {markersOnChart.map((g, i) => (
+                            <ReferenceDot
+                                key={`goal-${i}`}
+                                x={isAge ? g.age : g.year}
+                                y={g.value}
+                                r={6}
+                                fill={GOAL_PRIORITY_COLORS[g.priority]}
+                                stroke="#fff"
+                                label={{ value: g.label, position: 'top', fontSize: 11 }}
+                                ifOverflow="extendDomain"
+                            />
+                        ))}
+
+                        <Bar dataKey="investment" stackId="bar" barSize={20} fill="#34d399" name="Annual Investment" />
+                        {projectionData.some((d) => d.withdrawal > 0) && (
+                            <Bar dataKey="withdrawal" stackId="bar" barSize={20} fill="#f97316" name="Withdrawal" />
+                        )}
+                    </>
+                )}
             </ComposedChart>
+            {!comparisons && !stacked && markersBeyond.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                    Beyond the horizon: {markersBeyond.map((g) => `${g.label} (age ${g.age}, ${currencyFormatter(g.value)})`).join('; ')}.
+                    Extend the projection to draw {markersBeyond.length === 1 ? 'its marker' : 'their markers'}.
+                </p>
+            )}
         </div>
     );
 };
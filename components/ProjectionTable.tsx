@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
     Table,
     TableBody,
@@ -7,47 +7,96 @@ import {
     TableHeader,
     TableRow,
 } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { CentralLine, centralValue, YearlyData } from '@/lib/projection';
+import { EXPORT_LOCALES, ExportFormat } from '@/lib/export';
+import { CENTRAL_LINE_LABELS, CentralLineSelect } from './ProjectionChart';
 
 interface ProjectionTableProps {
-    projectionData: any[];
+    projectionData: YearlyData[];
+    isRealTerms: boolean;
+    setIsRealTerms: (v: boolean) => void;
+    centralLine: CentralLine;
+    setCentralLine: (v: CentralLine) => void;
     currencyFormatter: (value: number) => string;
+    onExport?: (format: ExportFormat, locale: string) => void; // Exports the full series, inputs and positions
 }
 
-const ProjectionTable: React.FC<ProjectionTableProps> = ({ projectionData, currencyFormatter }) => (
-    <Card>
-        <CardHeader className="py-2">
-            <CardTitle className="text-sm">Projection Details</CardTitle>
-        </CardHeader>
-        <CardContent className="p-2">
-            <Table className="text-xs">
-                <TableHeader>
-                    <TableRow className="h-5">
-                        <TableHead className="px-2 py-1 text-right">Year</TableHead>
-                        <TableHead className="px-2 py-1 text-right">Age</TableHead>
-                        <TableHead className="px-2 py-1 text-right">Total Investment</TableHead>
-                        <TableHead className="px-2 py-1 text-right">Worst 10%</TableHead>
-                        <TableHead className="px-2 py-1 text-right">Projection</TableHead>
-                        <TableHead className="px-2 py-1 text-right">Top 10%</TableHead>
-                        <TableHead className="px-2 py-1 text-right">Total Return</TableHead>
-                    </TableRow>
-                </TableHeader>
-                <TableBody>
-                    {projectionData.map((d: any) => (
-                        <TableRow key={d.year + '-' + d.age} className="h-5 even:bg-gray-200 dark:even:bg-gray-800/30">
-                            <TableCell className="font-medium px-2 py-1 text-right">{d.year}</TableCell>
-                            <TableCell className="px-2 py-1 text-right">{d.age}</TableCell>
-                            <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.totalInvestment)}</TableCell>
-                            <TableCell className="text-red-600 px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.worstCase)}</TableCell>
-                            <TableCell className="font-bold px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.projection)}</TableCell>
-                            <TableCell className="text-green-600 px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.bestCase)}</TableCell>
-                            <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.investmentReturn)}</TableCell>
+const ProjectionTable: React.FC<ProjectionTableProps> = ({ projectionData, isRealTerms, setIsRealTerms, centralLine, setCentralLine, currencyFormatter, onExport }) => {
+    const [exportLocale, setExportLocale] = useState(EXPORT_LOCALES[0]);
+    const hasWithdrawals = projectionData.some((d) => d.withdrawal > 0);
+    const hasDepletion = projectionData.some((d) => d.depletionProbability !== undefined);
+    const hasFees = projectionData.some((d) => d.fees > 0);
+    const fanPercentiles = projectionData[0]?.bands.map((b) => b.p) ?? [];
+
+    return (
+        <Card>
+            <CardHeader className="py-2 flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-sm">Projection Details{isRealTerms ? " (today's money)" : ''}</CardTitle>
+                <div className="flex items-center space-x-2">
+                    <CentralLineSelect value={centralLine} onChange={setCentralLine} className="h-7 w-40 text-xs" />
+                    <Label htmlFor="table-real-switch" className="text-xs">Today&apos;s Money</Label>
+                    <Switch id="table-real-switch" checked={isRealTerms} onCheckedChange={setIsRealTerms} />
+                    {onExport && (
+                        <>
+                            <Select value={exportLocale} onValueChange={setExportLocale}>
+                                <SelectTrigger className="h-7 w-24 text-xs ml-4" aria-label="Export number format">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {EXPORT_LOCALES.map((locale) => <SelectItem key={locale} value={locale}>{locale}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onExport('csv', exportLocale)}>Export CSV</Button>
+                            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onExport('xlsx', exportLocale)}>Export XLSX</Button>
+                        </>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="p-2">
+                <Table className="text-xs">
+                    <TableHeader>
+                        <TableRow className="h-5">
+                            <TableHead className="px-2 py-1 text-right">Year</TableHead>
+                            <TableHead className="px-2 py-1 text-right">Age</TableHead>
+                            <TableHead className="px-2 py-1 text-right">Lump Sum</TableHead>
+                            <TableHead className="px-2 py-1 text-right">Total Investment</TableHead>
+                            {fanPercentiles.map((p) => <TableHead key={`lo-${p}`} className="px-2 py-1 text-right">P{p}</TableHead>)}
+                            <TableHead className="px-2 py-1 text-right">{CENTRAL_LINE_LABELS[centralLine]}</TableHead>
+                            {[...fanPercentiles].reverse().map((p) => <TableHead key={`hi-${p}`} className="px-2 py-1 text-right">P{100 - p}</TableHead>)}
+                            <TableHead className="px-2 py-1 text-right">Total Return</TableHead>
+                            {hasFees && <TableHead className="px-2 py-1 text-right" title="Accumulated loads and expense ratio at the expected return">Fees Paid</TableHead>}
+                            {hasFees && <TableHead className="px-2 py-1 text-right" title="Value lost against the same plan without fees, at the expected return">Fee Gap</TableHead>}
+                            {hasWithdrawals && <TableHead className="px-2 py-1 text-right">Withdrawal</TableHead>}
+                            {hasDepletion && hasWithdrawals && <TableHead className="px-2 py-1 text-right">Depleted By</TableHead>}
                         </TableRow>
-                    ))}
-                </TableBody>
-            </Table>
-        </CardContent>
-    </Card>
-);
+                    </TableHeader>
+                    <TableBody>
+                        {projectionData.map((d) => (
+                            <TableRow key={d.year + '-' + d.age} className="h-5 even:bg-gray-200 dark:even:bg-gray-800/30">
+                                <TableCell className="font-medium px-2 py-1 text-right">{d.year}</TableCell>
+                                <TableCell className="px-2 py-1 text-right">{d.age}</TableCell>
+                                <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{d.lumpSum ? currencyFormatter(d.lumpSum) : '-'}</TableCell>
+                                <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.totalInvestment)}</TableCell>
+                                {d.bands.map((b) => <TableCell key={`lo-${b.p}`} className="text-red-600 px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(b.low)}</TableCell>)}
+                                <TableCell className="font-bold px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(centralValue(d, centralLine))}</TableCell>
+                                {[...d.bands].reverse().map((b) => <TableCell key={`hi-${b.p}`} className="text-green-600 px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(b.high)}</TableCell>)}
+                                <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.investmentReturn)}</TableCell>
+                                {hasFees && <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.totalFees)}</TableCell>}
+                                {hasFees && <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{currencyFormatter(d.feeGap)}</TableCell>}
+                                {hasWithdrawals && <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{d.withdrawal ? currencyFormatter(d.withdrawal) : '-'}</TableCell>}
+                                {hasDepletion && hasWithdrawals && <TableCell className="px-2 py-1 font-mono tabular-nums text-right">{`${((d.depletionProbability ?? 0) * 100).toFixed(1)}%`}</TableCell>}
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </CardContent>
+        </Card>
+    );
+};
 
 export default ProjectionTable;
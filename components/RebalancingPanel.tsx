@@ -0,0 +1,125 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FanBand } from '@/lib/projection';
+import { MultiAssetResult, RebalancingPolicy } from '@/lib/rebalancing';
+import { ASSET_CLASSES, AssetClass } from '@/lib/risk';
+
+interface RebalancingPanelProps {
+    results: MultiAssetResult[];
+    singleStream: { bands: FanBand[]; median: number; mean: number } | null; // Final year of the main projection
+    targetMix?: Record<AssetClass, number>; // Final year's target mix
+    band: number;                          // Threshold band in percentage points
+    setBand: (v: number) => void;
+    numPaths: number;
+    currencyFormatter: (value: number) => string;
+}
+
+const POLICY_LABELS: Record<RebalancingPolicy, string> = {
+    never: 'Buy and Hold',
+    annual: 'Annual Rebalancing',
+    threshold: 'Threshold Band',
+};
+
+const RebalancingPanel: React.FC<RebalancingPanelProps> = ({ results, singleStream, targetMix, band, setBand, numPaths, currencyFormatter }) => {
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const percentiles = results[0]?.bands.map((b) => b.p) ?? [];
+    const heldClasses = ASSET_CLASSES.filter((c) => (targetMix?.[c] ?? 0) > 0 || results.some((r) => r.finalMix[c] > 0));
+    const gap = (value: number, reference: number | undefined) => {
+        if (reference === undefined || reference === 0) return null;
+        const diff = value / reference - 1;
+        return <span className={diff < 0 ? 'text-red-600' : 'text-green-600'}> ({diff >= 0 ? '+' : ''}{(diff * 100).toFixed(1)}%)</span>;
+    };
+
+    const valueCells = (bands: FanBand[], median: number, mean: number) => (
+        <>
+            {bands.map((b) => <TableCell key={`lo-${b.p}`} className="p-2 text-right font-mono tabular-nums">{currencyFormatter(b.low)}{gap(b.low, singleStream?.bands.find((s) => s.p === b.p)?.low)}</TableCell>)}
+            <TableCell className="p-2 text-right font-mono tabular-nums font-semibold">{currencyFormatter(median)}{gap(median, singleStream?.median)}</TableCell>
+            {[...bands].reverse().map((b) => <TableCell key={`hi-${b.p}`} className="p-2 text-right font-mono tabular-nums">{currencyFormatter(b.high)}{gap(b.high, singleStream?.bands.find((s) => s.p === b.p)?.high)}</TableCell>)}
+            <TableCell className="p-2 text-right font-mono tabular-nums">{currencyFormatter(mean)}{gap(mean, singleStream?.mean)}</TableCell>
+        </>
+    );
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Rebalancing vs Buy and Hold</CardTitle>
+                <CardDescription>
+                    Simulates every position separately with correlated returns ({numPaths.toLocaleString()} paths, the same returns for each policy)
+                    and compares final values with the single-stream projection, which assumes the target mix is held throughout.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid w-full max-w-sm items-center gap-1.5">
+                    <Label htmlFor="rebalance-band">Threshold Band (± percentage points)</Label>
+                    <Input id="rebalance-band" type="number" min={1} max={50} step={1} value={band} onChange={(e) => setBand(Math.min(50, Math.max(1, Number(e.target.value))))} />
+                </div>
+                {results.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Add positions to compare rebalancing policies.</p>
+                ) : (
+                    <>
+                        <div className="rounded-md border">
+                            <Table className="text-xs">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="p-2">Final Value</TableHead>
+                                        {percentiles.map((p) => <TableHead key={`lo-${p}`} className="p-2 text-right">P{p}</TableHead>)}
+                                        <TableHead className="p-2 text-right">Median</TableHead>
+                                        {[...percentiles].reverse().map((p) => <TableHead key={`hi-${p}`} className="p-2 text-right">P{100 - p}</TableHead>)}
+                                        <TableHead className="p-2 text-right">Mean</TableHead>
+                                        <TableHead className="p-2 text-right">Trades per Path</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {singleStream && (
+                                        <TableRow>
+                                            <TableCell className="p-2 font-medium">Single Stream</TableCell>
+                                            {singleStream.bands.map((b) => <TableCell key={`lo-${b.p}`} className="p-2 text-right font-mono tabular-nums">{currencyFormatter(b.low)}</TableCell>)}
+                                            <TableCell className="p-2 text-right font-mono tabular-nums font-semibold">{currencyFormatter(singleStream.median)}</TableCell>
+                                            {[...singleStream.bands].reverse().map((b) => <TableCell key={`hi-${b.p}`} className="p-2 text-right font-mono tabular-nums">{currencyFormatter(b.high)}</TableCell>)}
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">{currencyFormatter(singleStream.mean)}</TableCell>
+                                            <TableCell className="p-2 text-right">-</TableCell>
+                                        </TableRow>
+                                    )}
+                                    {results.map((r) => (
+                                        <TableRow key={r.policy}>
+                                            <TableCell className="p-2 font-medium">{POLICY_LABELS[r.policy]}{r.policy === 'threshold' ? ` (±${band})` : ''}</TableCell>
+                                            {valueCells(r.bands, r.median, r.mean)}
+                                            <TableCell className="p-2 text-right font-mono tabular-nums">{r.rebalancesPerPath.toFixed(1)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                        <div className="rounded-md border">
+                            <Table className="text-xs">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="p-2">Final Mix</TableHead>
+                                        {heldClasses.map((c) => <TableHead key={c} className="p-2 text-right">{c}</TableHead>)}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    <TableRow>
+                                        <TableCell className="p-2 font-medium">Target</TableCell>
+                                        {heldClasses.map((c) => <TableCell key={c} className="p-2 text-right font-mono tabular-nums">{formatPercent(targetMix?.[c] ?? 0)}</TableCell>)}
+                                    </TableRow>
+                                    {results.map((r) => (
+                                        <TableRow key={r.policy}>
+                                            <TableCell className="p-2 font-medium">{POLICY_LABELS[r.policy]}</TableCell>
+                                            {heldClasses.map((c) => <TableCell key={c} className="p-2 text-right font-mono tabular-nums">{formatPercent(r.finalMix[c])}</TableCell>)}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default RebalancingPanel;
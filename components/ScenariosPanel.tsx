@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Scenario } from '@/lib/scenarios';
+
+export const MAX_COMPARED_SCENARIOS = 4;
+
+/**
+ * Summary values shown in the comparison table.
+ */
+interface ComparedSummary {
+    committedAnnualInvestment: number;
+    baseCAGR: number;
+    finalValues: { median: number };
+    realFinalValues: { median: number };
+    depletionProbability?: number;
+}
+
+interface ScenariosPanelProps {
+    scenarios: Scenario[];
+    compareIds: string[];
+    comparison: { name: string; summary: ComparedSummary }[]; // In `compareIds` order; the first is the baseline
+    onSave: (name: string) => void;
+    onLoad: (id: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onToggleCompare: (id: string) => void;
+}
+
+const ScenariosPanel: React.FC<ScenariosPanelProps> = (props) => {
+    const [name, setName] = useState('');
+    const currencyFormatter = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'THB', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    const handleSave = () => {
+        props.onSave(name.trim() || `Scenario ${props.scenarios.length + 1}`);
+        setName('');
+    };
+
+    const rows: { label: string; get: (s: ComparedSummary) => number | undefined; format: (v: number) => string }[] = [
+        { label: 'Annual Investment', get: (s) => s.committedAnnualInvestment, format: currencyFormatter },
+        { label: 'Expected Return', get: (s) => s.baseCAGR, format: formatPercent },
+        { label: 'Final Value (Median)', get: (s) => s.finalValues.median, format: currencyFormatter },
+        { label: "Final Value (Median, Today's Money)", get: (s) => s.realFinalValues.median, format: currencyFormatter },
+        { label: 'Probability of Depletion', get: (s) => s.depletionProbability, format: formatPercent },
+    ];
+    const baseline = props.comparison[0]?.summary;
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Scenarios</CardTitle>
+                <CardDescription>Saved in this browser. Select two to {MAX_COMPARED_SCENARIOS} scenarios to compare them.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                    <Input aria-label="Scenario name" placeholder="Scenario name" value={name} onChange={(e) => setName(e.target.value)} />
+                    <Button onClick={handleSave} className="bg-black text-white hover:bg-gray-800">Save Current</Button>
+                </div>
+
+                <div className="rounded-md border">
+                    <Table className="text-xs">
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="p-2">Name</TableHead>
+                                <TableHead className="p-2">Saved</TableHead>
+                                <TableHead className="p-2">Compare</TableHead>
+                                <TableHead className="p-2 text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {props.scenarios.length > 0 ? (
+                                props.scenarios.map((scenario) => {
+                                    const compared = props.compareIds.includes(scenario.id);
+                                    return (
+                                        <TableRow key={scenario.id}>
+                                            <TableCell className="p-2 font-medium">{scenario.name}</TableCell>
+                                            <TableCell className="p-2 text-muted-foreground">{new Date(scenario.savedAt).toLocaleString()}</TableCell>
+                                            <TableCell className="p-2">
+                                                <Switch
+                                                    aria-label={`Compare ${scenario.name}`}
+                                                    checked={compared}
+                                                    disabled={!compared && props.compareIds.length >= MAX_COMPARED_SCENARIOS}
+                                                    onCheckedChange={() => props.onToggleCompare(scenario.id)}
+                                                />
+                                            </TableCell>
+                                            <TableCell className="p-2 text-right space-x-1">
+                                                <Button variant="ghost" size="sm" onClick={() => props.onLoad(scenario.id)}>Load</Button>
+                                                <Button variant="ghost" size="sm" onClick={() => props.onDuplicate(scenario.id)}>Duplicate</Button>
+                                                <Button variant="ghost" size="sm" className="text-red-600" onClick={() => props.onDelete(scenario.id)}>Delete</Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })
+                            ) : (
+                                <TableRow>
+                                    <TableCell colSpan={4} className="h-16 text-center">
+                                        No saved scenarios yet.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </div>
+
+                {props.comparison.length >= 2 && baseline && (
+                    <div>
+                        <h3 className="text-md font-semibold mb-2">Comparison (vs. {props.comparison[0].name})</h3>
+                        <div className="rounded-md border">
+                            <Table className="text-xs">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="p-2">Metric</TableHead>
+                                        {props.comparison.map((c, i) => (
+                                            <TableHead key={i} className="p-2 text-right">{c.name}</TableHead>
+                                        ))}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {rows.map((row) => (
+                                        <TableRow key={row.label}>
+                                            <TableCell className="p-2 font-medium">{row.label}</TableCell>
+                                            {props.comparison.map((c, i) => {
+                                                const value = row.get(c.summary);
+                                                const base = row.get(baseline);
+                                                const diff = value !== undefined && base !== undefined && i > 0 ? value - base : undefined;
+                                                return (
+                                                    <TableCell key={i} className="p-2 text-right font-mono tabular-nums">
+                                                        {value === undefined ? '-' : row.format(value)}
+                                                        {diff !== undefined && diff !== 0 && (
+                                                            <span className={diff > 0 ? 'block text-green-600' : 'block text-red-600'}>
+                                                                {diff > 0 ? '+' : '-'}{row.format(Math.abs(diff))}
+                                                            </span>
+                                                        )}
+                                                    </TableCell>
+                                                );
+                                            })}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default ScenariosPanel;
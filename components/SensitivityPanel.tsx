@@ -0,0 +1,177 @@
+import React from 'react';
+import { BarChart, Bar, CartesianGrid, XAxis, YAxis, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HeatmapResult, SENSITIVITY_INPUTS, SensitivityDeltas, SensitivityInput, TerminalValues, TornadoResult } from '@/lib/sensitivity';
+
+const SENSITIVITY_LABELS: Record<SensitivityInput, string> = {
+    expectedReturn: 'Expected Return',
+    volatility: 'Volatility',
+    investment: 'Annual Investment',
+    lumpSum: 'Lump Sums',
+    horizon: 'Horizon',
+    fees: 'Expense Ratio',
+    inflation: 'Inflation',
+};
+
+// Unit each delta is edited in; rates and amounts are stored as decimals
+const DELTA_UNITS: Record<SensitivityInput, { suffix: string; scale: number; step: number }> = {
+    expectedReturn: { suffix: 'pts', scale: 100, step: 0.25 },
+    volatility: { suffix: 'pts', scale: 100, step: 0.5 },
+    investment: { suffix: '%', scale: 100, step: 5 },
+    lumpSum: { suffix: '%', scale: 100, step: 5 },
+    horizon: { suffix: 'yrs', scale: 1, step: 1 },
+    fees: { suffix: 'pts', scale: 100, step: 0.1 },
+    inflation: { suffix: 'pts', scale: 100, step: 0.25 },
+};
+
+/**
+ * A signed delta in its editing unit, e.g. "+1pts" or "-10%".
+ */
+const formatDelta = (input: SensitivityInput, delta: number) => {
+    const { suffix, scale } = DELTA_UNITS[input];
+    const value = +(delta * scale).toFixed(2);
+    return `${value >= 0 ? '+' : ''}${value}${suffix === '%' ? '%' : ` ${suffix}`}`;
+};
+
+interface SensitivityPanelProps {
+    deltas: SensitivityDeltas;
+    setDeltas: (deltas: SensitivityDeltas) => void;
+    tornado: TornadoResult;
+    heatmap: HeatmapResult;
+    setHeatmapAxes: (rowInput: SensitivityInput, colInput: SensitivityInput) => void;
+    isRealTerms: boolean;
+    currencyFormatter: (value: number) => string;
+    compactNumberFormatter: (value: number) => string;
+}
+
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ deltas, setDeltas, tornado, heatmap, setHeatmapAxes, isRealTerms, currencyFormatter, compactNumberFormatter }) => {
+    const signedCompact = (value: number) => `${value < 0 ? '-' : value > 0 ? '+' : ''}${compactNumberFormatter(Math.abs(value))}`;
+
+    // Bars are drawn as changes from the base value so each input's two bars meet at zero
+    const tornadoData = (metric: keyof TerminalValues) => tornado.bars.map((bar) => ({
+        name: `${SENSITIVITY_LABELS[bar.input]} ±${formatDelta(bar.input, bar.delta).slice(1)}`,
+        down: bar.low[metric] - tornado.base[metric],
+        up: bar.high[metric] - tornado.base[metric],
+    }));
+
+    const base = heatmap.medians[Math.floor(heatmap.medians.length / 2)]?.[Math.floor(heatmap.colDeltas.length / 2)] ?? 0;
+    const cellColor = (value: number) => {
+        if (base <= 0) return undefined;
+        // Full color at a 50% change from the base median
+        const intensity = Math.min(1, Math.abs(value / base - 1) * 2);
+        return value >= base ? `rgba(22, 163, 74, ${0.08 + 0.5 * intensity})` : `rgba(220, 38, 38, ${0.08 + 0.5 * intensity})`;
+    };
+
+    const renderTornado = (metric: keyof TerminalValues, title: string) => (
+        <div className="space-y-1">
+            <p className="text-sm font-medium">{title}: {currencyFormatter(tornado.base[metric])}</p>
+            <BarChart width={600} height={40 + tornado.bars.length * 32} data={tornadoData(metric)} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                <XAxis type="number" tickFormatter={signedCompact} />
+                <YAxis type="category" dataKey="name" width={180} tick={{ fontSize: 11 }} />
+                <Tooltip formatter={(value: number) => signedCompact(value)} />
+                <Legend />
+                <ReferenceLine x={0} stroke="#334155" />
+                <Bar dataKey="down" name="Input Lowered" stackId="swing" fill="#f97316" />
+                <Bar dataKey="up" name="Input Raised" stackId="swing" fill="#3b82f6" />
+            </BarChart>
+        </div>
+    );
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Sensitivity Analysis</CardTitle>
+                <CardDescription>
+                    Change in the final {isRealTerms ? "value in today's money" : 'nominal value'} when each input is lowered and raised by its delta, the others held fixed.
+                    {!isRealTerms && ' Inflation only moves values in today\'s money.'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {SENSITIVITY_INPUTS.map((input) => {
+                        const { suffix, scale, step } = DELTA_UNITS[input];
+                        return (
+                            <div key={input} className="space-y-1">
+                                <Label htmlFor={`sensitivity-${input}`}>{SENSITIVITY_LABELS[input]} (± {suffix})</Label>
+                                <Input
+                                    id={`sensitivity-${input}`}
+                                    type="number"
+                                    min={0}
+                                    step={step}
+                                    value={+(deltas[input] * scale).toFixed(4)}
+                                    onChange={(e) => setDeltas({ ...deltas, [input]: Math.max(0, Number(e.target.value)) / scale })}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {renderTornado('median', 'Final Median')}
+                {renderTornado('p10', 'Final P10')}
+
+                <div className="space-y-2">
+                    <div className="flex flex-wrap items-end gap-2">
+                        <div className="space-y-1">
+                            <Label htmlFor="heatmap-rows">Rows</Label>
+                            <Select value={heatmap.rowInput} onValueChange={(v) => setHeatmapAxes(v as SensitivityInput, heatmap.colInput)}>
+                                <SelectTrigger id="heatmap-rows" className="w-44">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {SENSITIVITY_INPUTS.filter((input) => input !== heatmap.colInput).map((input) => (
+                                        <SelectItem key={input} value={input}>{SENSITIVITY_LABELS[input]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="heatmap-cols">Columns</Label>
+                            <Select value={heatmap.colInput} onValueChange={(v) => setHeatmapAxes(heatmap.rowInput, v as SensitivityInput)}>
+                                <SelectTrigger id="heatmap-cols" className="w-44">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {SENSITIVITY_INPUTS.filter((input) => input !== heatmap.rowInput).map((input) => (
+                                        <SelectItem key={input} value={input}>{SENSITIVITY_LABELS[input]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="rounded-md border">
+                        <Table className="text-xs">
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="p-2">{SENSITIVITY_LABELS[heatmap.rowInput]} \ {SENSITIVITY_LABELS[heatmap.colInput]}</TableHead>
+                                    {heatmap.colDeltas.map((delta, j) => (
+                                        <TableHead key={j} className="p-2 text-right">{formatDelta(heatmap.colInput, delta)}</TableHead>
+                                    ))}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {heatmap.medians.map((row, i) => (
+                                    <TableRow key={i}>
+                                        <TableCell className="p-2 font-medium">{formatDelta(heatmap.rowInput, heatmap.rowDeltas[i])}</TableCell>
+                                        {row.map((value, j) => (
+                                            <TableCell key={j} className="p-2 text-right font-mono tabular-nums" style={{ backgroundColor: cellColor(value) }}>
+                                                {compactNumberFormatter(value)}
+                                            </TableCell>
+                                        ))}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Final median; the centre cell is the current projection.</p>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default SensitivityPanel;
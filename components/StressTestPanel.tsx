@@ -0,0 +1,154 @@
+import React from 'react';
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StressScenario, StressShortfall } from '@/lib/stress';
+import { ASSET_CLASSES, AssetClass } from '@/lib/risk';
+
+export interface StressTestResult {
+    scenario: StressScenario;
+    values: number[];     // Stressed value per year, in the chart's current terms
+    finalValue: number;   // Stressed value in the final year, in the chart's current terms
+    finalMedian: number;  // Median in the final year, in the same terms
+    shortfall: StressShortfall;
+}
+
+interface StressTestPanelProps {
+    scenarios: StressScenario[];
+    setScenarios: (scenarios: StressScenario[]) => void;
+    results: StressTestResult[]; // Enabled scenarios only
+    age: number;
+    projectionYears: number;
+    isRealTerms: boolean;
+    currencyFormatter: (value: number) => string;
+}
+
+const StressTestPanel: React.FC<StressTestPanelProps> = ({ scenarios, setScenarios, results, age, projectionYears, isRealTerms, currencyFormatter }) => {
+    const update = (index: number, patch: Partial<StressScenario>) => {
+        setScenarios(scenarios.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+    };
+    const updateReturn = (index: number, assetClass: AssetClass, raw: string) => {
+        const returns = { ...scenarios[index].returns };
+        // A blank cell leaves the class at its expected return
+        if (raw.trim() === '') delete returns[assetClass];
+        else returns[assetClass] = Math.max(-100, Number(raw)) / 100;
+        update(index, { returns });
+    };
+    const addCustom = () => {
+        setScenarios([...scenarios, {
+            id: `custom-${Date.now().toString(36)}`,
+            name: 'Custom Shock',
+            startYear: 1,
+            duration: 1,
+            returns: { 'Local Equity': -0.2, 'Global Equity': -0.2 },
+            enabled: true,
+            custom: true,
+        }]);
+    };
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Stress Tests</CardTitle>
+                <CardDescription>
+                    Deterministic paths where the listed asset classes earn the shock return for the shock years and every other year
+                    earns its expected return, drawn over the fan. Blank cells keep a class at its expected return.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="rounded-md border">
+                    <Table className="text-xs">
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="p-2">Show</TableHead>
+                                <TableHead className="p-2">Scenario</TableHead>
+                                <TableHead className="p-2 text-right">Start Year</TableHead>
+                                <TableHead className="p-2 text-right">Years</TableHead>
+                                {ASSET_CLASSES.map((c) => <TableHead key={c} className="p-2 text-right">{c} (%)</TableHead>)}
+                                <TableHead className="p-2" />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {scenarios.map((s, index) => (
+                                <TableRow key={s.id}>
+                                    <TableCell className="p-2">
+                                        <Switch aria-label={`Show ${s.name}`} checked={s.enabled} onCheckedChange={(v) => update(index, { enabled: v })} />
+                                    </TableCell>
+                                    <TableCell className="p-1">
+                                        {s.custom
+                                            ? <Input aria-label="Stress scenario name" value={s.name} onChange={(e) => update(index, { name: e.target.value })} className="h-8 text-xs" />
+                                            : <span className="font-medium">{s.name}</span>}
+                                    </TableCell>
+                                    <TableCell className="p-1">
+                                        <Input aria-label="Shock start year" type="number" min={1} max={projectionYears} step={1} value={s.startYear} onChange={(e) => update(index, { startYear: Math.min(projectionYears, Math.max(1, Math.round(Number(e.target.value)))) })} className="h-8 w-16 text-xs text-right" />
+                                    </TableCell>
+                                    <TableCell className="p-1">
+                                        <Input aria-label="Shock duration" type="number" min={1} max={projectionYears} step={1} value={s.duration} onChange={(e) => update(index, { duration: Math.min(projectionYears, Math.max(1, Math.round(Number(e.target.value)))) })} className="h-8 w-16 text-xs text-right" />
+                                    </TableCell>
+                                    {ASSET_CLASSES.map((c) => (
+                                        <TableCell key={c} className="p-1">
+                                            <Input
+                                                aria-label={`${c} shock return`}
+                                                type="number"
+                                                step={1}
+                                                placeholder="-"
+                                                value={s.returns[c] === undefined ? '' : +(s.returns[c]! * 100).toFixed(2)}
+                                                onChange={(e) => updateReturn(index, c, e.target.value)}
+                                                className="h-8 w-20 text-xs text-right"
+                                            />
+                                        </TableCell>
+                                    ))}
+                                    <TableCell className="p-1 text-right">
+                                        {s.custom && (
+                                            <Button variant="ghost" size="icon" aria-label="Remove stress scenario" onClick={() => setScenarios(scenarios.filter((_, i) => i !== index))}>
+                                                <X className="h-4 w-4" />
+                                            </Button>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+                <Button variant="outline" size="sm" onClick={addCustom}>Add Custom Shock</Button>
+
+                {results.length > 0 && (
+                    <div className="rounded-md border">
+                        <Table className="text-xs">
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="p-2">Shortfall vs Median{isRealTerms ? " (Today's Money)" : ''}</TableHead>
+                                    <TableHead className="p-2 text-right">Final Value</TableHead>
+                                    <TableHead className="p-2 text-right">Final Median</TableHead>
+                                    <TableHead className="p-2 text-right">Final Shortfall</TableHead>
+                                    <TableHead className="p-2 text-right">Worst Shortfall</TableHead>
+                                    <TableHead className="p-2 text-right">Worst at Age</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {results.map((r) => (
+                                    <TableRow key={r.scenario.id}>
+                                        <TableCell className="p-2 font-medium">{r.scenario.name}</TableCell>
+                                        <TableCell className="p-2 text-right font-mono tabular-nums">{currencyFormatter(r.finalValue)}</TableCell>
+                                        <TableCell className="p-2 text-right font-mono tabular-nums">{currencyFormatter(r.finalMedian)}</TableCell>
+                                        <TableCell className={`p-2 text-right font-mono tabular-nums ${r.shortfall.final > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                            {currencyFormatter(r.shortfall.final)}
+                                            {r.finalMedian > 0 && ` (${(r.shortfall.final / r.finalMedian * 100).toFixed(1)}%)`}
+                                        </TableCell>
+                                        <TableCell className="p-2 text-right font-mono tabular-nums">{r.shortfall.worst > 0 ? currencyFormatter(r.shortfall.worst) : '-'}</TableCell>
+                                        <TableCell className="p-2 text-right">{r.shortfall.worst > 0 ? age + r.shortfall.worstYear - 1 : '-'}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default StressTestPanel;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ContributionSuggestion, DEDUCTIBLE_FUND_TYPES, TaxResult } from '@/lib/tax';
+
+interface TaxPanelProps {
+    grossIncome: number;
+    setGrossIncome: (v: number) => void;
+    otherDeductions: number;
+    setOtherDeductions: (v: number) => void;
+    providentFundContribution: number;
+    setProvidentFundContribution: (v: number) => void;
+    taxResult: TaxResult;
+    suggestion: ContributionSuggestion;
+    onApplySuggestion: () => void;
+}
+
+const TaxPanel: React.FC<TaxPanelProps> = (props) => {
+    const { taxResult, suggestion } = props;
+    const currencyFormatter = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'THB', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
+
+    const inputs = [
+        { id: 'grossIncome', label: 'Gross Annual Income', value: props.grossIncome, setValue: props.setGrossIncome },
+        { id: 'otherDeductions', label: 'Other Deductions', value: props.otherDeductions, setValue: props.setOtherDeductions },
+        { id: 'providentFund', label: 'Provident Fund Contribution', value: props.providentFundContribution, setValue: props.setProvidentFundContribution },
+    ];
+
+    const metrics = [
+        { label: 'Taxable Income', value: taxResult.taxableIncome },
+        { label: 'Tax Without Funds', value: taxResult.taxWithoutFunds },
+        { label: 'Tax Payable', value: taxResult.tax },
+        { label: 'Tax Saved', value: taxResult.taxSaved },
+    ];
+
+    return (
+        <Card className="card-compact">
+            <CardHeader>
+                <CardTitle>Tax Planning</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                    <h3 className="text-md font-semibold mb-2">Income &amp; Deductions</h3>
+                    {inputs.map(({ id, label, value, setValue }) => (
+                        <div key={id} className="grid w-full max-w-sm items-center gap-1.5">
+                            <Label htmlFor={id}>{label}</Label>
+                            <Input id={id} type="number" min={0} step={10000} value={value} onChange={(e) => setValue(Number(e.target.value))} />
+                        </div>
+                    ))}
+                    <div className="space-y-1 pt-2">
+                        {metrics.map(({ label, value }) => (
+                            <div key={label} className="flex justify-between text-sm border-b py-1">
+                                <span className="text-muted-foreground">{label}</span>
+                                <span className="font-semibold font-mono tabular-nums">{currencyFormatter(value)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <h3 className="text-md font-semibold mb-2">Tax Saved by Position</h3>
+                    <div className="rounded-md border">
+                        <Table className="text-xs">
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="p-2">Symbol</TableHead>
+                                    <TableHead className="p-2">Type</TableHead>
+                                    <TableHead className="p-2 text-right">Deductible</TableHead>
+                                    <TableHead className="p-2 text-right">Tax Saved</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {taxResult.positions.map((p, index) => (
+                                    <TableRow key={index}>
+                                        <TableCell className="p-2 font-medium">{p.symbol}</TableCell>
+                                        <TableCell className="p-2">{p.fundType}</TableCell>
+                                        <TableCell className="p-2 text-right font-mono tabular-nums">{currencyFormatter(p.allowedDeduction)}</TableCell>
+                                        <TableCell className="p-2 text-right font-mono tabular-nums text-green-600">{currencyFormatter(p.taxSaved)}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <h3 className="text-md font-semibold mb-2">Suggested Contributions</h3>
+                    {DEDUCTIBLE_FUND_TYPES.map((type) => (
+                        <div key={type} className="flex justify-between text-sm border-b py-1">
+                            <span className="text-muted-foreground">{type}</span>
+                            <span className="font-mono tabular-nums">{currencyFormatter(suggestion.contributions[type])}</span>
+                        </div>
+                    ))}
+                    <div className="flex justify-between text-sm border-b py-1">
+                        <span className="text-muted-foreground">Total</span>
+                        <span className="font-semibold font-mono tabular-nums">{currencyFormatter(suggestion.total)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm border-b py-1">
+                        <span className="text-muted-foreground">Maximum Tax Saved</span>
+                        <span className="font-semibold font-mono tabular-nums text-green-600">{currencyFormatter(suggestion.taxSaved)}</span>
+                    </div>
+                    <Button onClick={props.onApplySuggestion} className="w-full mt-2 bg-black text-white hover:bg-gray-800" disabled={suggestion.total === 0}>
+                        Apply to Portfolio
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default TaxPanel;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Position } from '@/components/Portfolio';
+import { checkFundCompliance } from '@/lib/compliance';
+import type { YearlyData } from '@/lib/projection';
+
+const TAX_SAVED_PER_BAHT = [0.2];
+const VALUE = 1_000_000;
+
+const fund = (fundType: Position['fundType']): Position => ({
+    id: fundType!, symbol: fundType!, expectedReturn: 6, assetClass: 'Local Equity', investmentAmount: 100_000, fundType,
+});
+
+// One position bought with `invest(year)` each year. A withdrawal of VALUE out of 2 * VALUE redeems half of every lot.
+const plan = (startAge: number, years: number, invest: (year: number) => number, withdrawalYears: number[] = []) =>
+    Array.from({ length: years }, (_, i) => ({
+        year: i + 1,
+        age: startAge + i,
+        investmentBreakdown: [invest(i + 1)],
+        withdrawal: withdrawalYears.includes(i + 1) ? VALUE : 0,
+        deterministicCase: VALUE,
+    }) as YearlyData);
+
+const yearsUpTo = (last: number) => (year: number) => (year <= last ? 100_000 : 0);
+
+describe('checkFundCompliance', () => {
+    it('holds each SSF lot for 10 years and redeems only lots already bought', () => {
+        const { lots, issues } = checkFundCompliance([fund('SSF')], plan(35, 11, yearsUpTo(2), [1, 11]), TAX_SAVED_PER_BAHT);
+        expect(lots.map((lot) => [lot.year, lot.earliestRedemptionYear])).toEqual([[1, 11], [2, 12]]);
+
+        // Year 1 redeems half of the first lot; year 11 frees the first lot but redeems half of the whole second one
+        expect(issues.map((issue) => [issue.year, issue.redeemedAmount, issue.clawback])).toEqual([
+            [1, 50_000, 10_000],
+            [11, 50_000, 10_000],
+        ]);
+    });
+
+    it('charges 1.5% a month on the repaid tax, capped at the tax itself', () => {
+        const [early] = checkFundCompliance([fund('ThaiESG')], plan(35, 3, yearsUpTo(1), [3]), TAX_SAVED_PER_BAHT).issues;
+        expect(early.clawback).toBeCloseTo(10_000, 6);
+        expect(early.surcharge).toBeCloseTo(10_000 * 0.015 * 24, 6);
+
+        const [, late] = checkFundCompliance([fund('SSF')], plan(35, 11, yearsUpTo(2), [1, 11]), TAX_SAVED_PER_BAHT).issues;
+        expect(late.surcharge).toBeCloseTo(late.clawback, 6);
+    });
+
+    it('holds RMF until age 55 and 5 years from the first purchase', () => {
+        const earliest = (startAge: number) => {
+            const { lots } = checkFundCompliance([fund('RMF')], plan(startAge, 12, yearsUpTo(12)), TAX_SAVED_PER_BAHT);
+            return [lots[0].earliestRedemptionYear, lots[0].earliestRedemptionAge, lots[lots.length - 1].earliestRedemptionYear];
+        };
+        expect(earliest(45)).toEqual([11, 55, 11]);
+        expect(earliest(52)).toEqual([6, 57, 6]);
+    });
+
+    it('repays the last 5 years of RMF deductions after two years without a purchase', () => {
+        const { issues } = checkFundCompliance([fund('RMF')], plan(40, 12, yearsUpTo(7)), TAX_SAVED_PER_BAHT);
+        expect(issues).toHaveLength(1);
+        const [issue] = issues;
+        expect([issue.kind, issue.year, issue.redeemedAmount]).toEqual(['contributionGap', 9, 0]);
+        // Lots of years 5 to 7 fall within the window
+        expect(issue.clawback).toBeCloseTo(3 * 20_000, 6);
+        expect(issue.surcharge).toBeCloseTo(20_000 * 0.18 * (4 + 3 + 2), 6);
+    });
+
+    it('repays the last 5 years of RMF deductions once on an early redemption', () => {
+        const { issues } = checkFundCompliance([fund('RMF')], plan(40, 9, yearsUpTo(9), [7, 8]), TAX_SAVED_PER_BAHT);
+        expect(issues).toHaveLength(1);
+        const [issue] = issues;
+        expect([issue.kind, issue.year]).toEqual(['earlyRedemption', 7]);
+        expect(issue.clawback).toBeCloseTo(5 * 20_000, 6);
+        expect(issue.redeemedAmount).toBeCloseTo(5 * 100_000 * 0.5, 6);
+    });
+
+    it('lets a held RMF be redeemed without any issue', () => {
+        const { issues } = checkFundCompliance([fund('RMF')], plan(50, 8, yearsUpTo(6), [6, 7, 8]), TAX_SAVED_PER_BAHT);
+        expect(issues).toEqual([]);
+    });
+});
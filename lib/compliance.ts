@@ -0,0 +1,226 @@
+import type { Position } from '@/components/Portfolio';
+import type { YearlyData } from '@/lib/projection';
+import { DeductibleFundType, positionFundType } from '@/lib/tax';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * Conditions a tax-advantaged fund must meet for its deductions to stand.
+ */
+interface HoldingRule {
+    minHoldingYears: number;     // Years to hold before redeeming
+    fromFirstPurchase: boolean;  // Whether the holding period runs from the first purchase of the type rather than per lot
+    minRedemptionAge?: number;   // Age before which nothing may be redeemed
+    maxContributionGap?: number; // Consecutive years without a purchase allowed until the fund may be redeemed
+    clawbackYears?: number;      // Breaking the rules repays the deductions of this many most recent years; otherwise those of the redeemed units
+}
+
+/**
+ * Purchases of one position in one projection year, held as a unit for the holding rules.
+ */
+export interface FundLot {
+    position: number;           // Index of the position in `positions`
+    symbol: string;
+    fundType: DeductibleFundType;
+    year: number;               // Projection year of the purchase
+    age: number;
+    amount: number;             // Contributed in this year (THB)
+    taxSaved: number;           // Estimated tax saved by the lot's deduction
+    earliestRedemptionYear: number; // First projection year in which the lot can be redeemed without penalty
+    earliestRedemptionAge: number;
+}
+
+/**
+ * - 'earlyRedemption': a planned withdrawal redeems units before they may be redeemed
+ * - 'contributionGap': purchases of a fund that requires continuous buying stop for too long
+ */
+export type ComplianceIssueKind = 'earlyRedemption' | 'contributionGap';
+
+/**
+ * A rule broken by the plan, with the tax that would have to be repaid.
+ */
+export interface ComplianceIssue {
+    kind: ComplianceIssueKind;
+    symbol: string;
+    fundType: DeductibleFundType;
+    year: number;               // Projection year in which the rule is broken
+    age: number;
+    redeemedAmount: number;     // Early redemption only: contributions of the lots redeemed early (THB)
+    clawback: number;           // Deductions' tax saving that has to be repaid
+    surcharge: number;          // Surcharge on the repaid tax
+}
+
+export interface ComplianceReport {
+    lots: FundLot[];
+    issues: ComplianceIssue[];
+    totalClawback: number;
+    totalSurcharge: number;
+}
+
+// --- RULES --- //
+
+/**
+ * Holding rules per fund type:
+ * - SSF: each purchase is held for 10 years.
+ * - RMF: held until age 55 and at least 5 years from the first purchase, buying at least every other year
+ *   until then; breaking the rules repays the deductions of the last 5 years.
+ * - ThaiESG: each purchase is held for 5 years (purchases from 2025).
+ */
+export const HOLDING_RULES: Record<DeductibleFundType, HoldingRule> = {
+    SSF: { minHoldingYears: 10, fromFirstPurchase: false },
+    RMF: { minHoldingYears: 5, fromFirstPurchase: true, minRedemptionAge: 55, maxContributionGap: 1, clawbackYears: 5 },
+    ThaiESG: { minHoldingYears: 5, fromFirstPurchase: false },
+};
+
+/**
+ * Surcharge on repaid tax per month since the deduction was claimed, capped at the tax itself.
+ */
+export const CLAWBACK_SURCHARGE_PER_MONTH = 0.015;
+
+// --- HELPERS --- //
+
+const surchargeFor = (lot: FundLot, clawback: number, year: number) => {
+    return Math.min(clawback, clawback * CLAWBACK_SURCHARGE_PER_MONTH * 12 * Math.max(0, year - lot.year));
+};
+
+// --- CORE CALCULATION LOGIC --- //
+
+/**
+ * Checks the planned contributions and withdrawals against the holding rules of SSF, RMF and ThaiESG.
+ * Every year's contribution to a tax-advantaged position is a lot. Withdrawals redeem every position
+ * and lot pro rata to its value, as the projection takes them from the whole portfolio, so a withdrawal
+ * before a lot's earliest redemption year breaks the rules for the redeemed share. RMF conditions apply
+ * to all RMF positions together: once broken, the deductions of the last `clawbackYears` are repaid.
+ *
+ * The tax saved per lot assumes every year's deduction saves tax at this year's rate per baht.
+ *
+ * @param {Position[]} positions - The positions, in the order of the projection's contribution streams.
+ * @param {YearlyData[]} data - Nominal yearly projection with per-stream investments and withdrawals.
+ * @param {number[]} taxSavedPerBaht - Tax saved per baht contributed to each position this year.
+ * @returns {ComplianceReport} The lots, the rules broken and the estimated clawback.
+ */
+export const checkFundCompliance = (positions: Position[], data: YearlyData[], taxSavedPerBaht: number[]): ComplianceReport => {
+    if (data.length === 0) return { lots: [], issues: [], totalClawback: 0, totalSurcharge: 0 };
+    const startAge = data[0].age;
+    const yearOfAge = (age: number) => age - startAge + 1;
+
+    // 1) Lots, one per position and year with a contribution
+    const lots: FundLot[] = [];
+    positions.forEach((pos, j) => {
+        const fundType = positionFundType(pos);
+        if (fundType === 'General') return;
+        for (const d of data) {
+            const amount = d.investmentBreakdown[j] ?? 0;
+            if (amount <= 0) continue;
+            lots.push({
+                position: j,
+                symbol: pos.symbol,
+                fundType,
+                year: d.year,
+                age: d.age,
+                amount,
+                taxSaved: amount * (taxSavedPerBaht[j] ?? 0),
+                earliestRedemptionYear: 0,
+                earliestRedemptionAge: 0,
+            });
+        }
+    });
+
+    // 2) Earliest penalty-free redemption per lot
+    const firstPurchase = new Map<DeductibleFundType, number>();
+    for (const lot of lots) firstPurchase.set(lot.fundType, Math.min(firstPurchase.get(lot.fundType) ?? Infinity, lot.year));
+    for (const lot of lots) {
+        const rule = HOLDING_RULES[lot.fundType];
+        const held = (rule.fromFirstPurchase ? firstPurchase.get(lot.fundType)! : lot.year) + rule.minHoldingYears;
+        lot.earliestRedemptionYear = Math.max(held, rule.minRedemptionAge !== undefined ? yearOfAge(rule.minRedemptionAge) : 1);
+        lot.earliestRedemptionAge = startAge + lot.earliestRedemptionYear - 1;
+    }
+
+    // 3) Walk the years: withdrawals redeem a share of every lot, and gaps in continuous buying break the rules
+    const issues: ComplianceIssue[] = [];
+    const remaining = lots.map(() => 1); // Share of each lot still held
+    const broken = new Set<DeductibleFundType>(); // Types whose deductions were already clawed back as a whole
+    const gapYears = new Map<DeductibleFundType, number>();
+
+    // Breaking a type-wide rule repays the recent deductions of every position of the type.
+    const breakType = (fundType: DeductibleFundType, kind: ComplianceIssueKind, d: YearlyData, redeemedShare: number) => {
+        broken.add(fundType);
+        const window = HOLDING_RULES[fundType].clawbackYears ?? Infinity;
+        positions.forEach((pos, j) => {
+            const recent = lots.filter((lot) => lot.position === j && lot.fundType === fundType && lot.year <= d.year && lot.year > d.year - window);
+            if (recent.length === 0) return;
+            const clawback = recent.reduce((acc, lot) => acc + lot.taxSaved, 0);
+            issues.push({
+                kind,
+                symbol: pos.symbol,
+                fundType,
+                year: d.year,
+                age: d.age,
+                redeemedAmount: kind === 'earlyRedemption' ? recent.reduce((acc, lot) => acc + lot.amount, 0) * redeemedShare : 0,
+                clawback,
+                surcharge: recent.reduce((acc, lot) => acc + surchargeFor(lot, lot.taxSaved, d.year), 0),
+            });
+        });
+    };
+
+    for (const d of data) {
+        // Continuous buying: count the years without a purchase until the type may be redeemed
+        for (const [fundType, first] of Array.from(firstPurchase.entries())) {
+            const rule = HOLDING_RULES[fundType];
+            if (rule.maxContributionGap === undefined || broken.has(fundType) || d.year <= first) continue;
+            const eligibleYear = Math.min(...lots.filter((lot) => lot.fundType === fundType).map((lot) => lot.earliestRedemptionYear));
+            if (d.year >= eligibleYear) continue;
+            const bought = lots.some((lot) => lot.fundType === fundType && lot.year === d.year);
+            const gap = bought ? 0 : (gapYears.get(fundType) ?? 0) + 1;
+            gapYears.set(fundType, gap);
+            if (gap > rule.maxContributionGap) breakType(fundType, 'contributionGap', d, 0);
+        }
+
+        if (d.withdrawal <= 0) continue;
+        const valueBefore = d.deterministicCase + d.withdrawal;
+        const share = valueBefore > 0 ? Math.min(1, d.withdrawal / valueBefore) : 0;
+        if (share <= 0) continue;
+
+        // Per-lot rules: the redeemed share of each lot that is still locked is repaid
+        const early = new Map<number, { amount: number; clawback: number; surcharge: number }>();
+        lots.forEach((lot, i) => {
+            if (lot.year > d.year) return; // Not bought yet, so nothing of it is redeemed
+            const redeemed = remaining[i] * share;
+            remaining[i] -= redeemed;
+            const rule = HOLDING_RULES[lot.fundType];
+            if (rule.clawbackYears !== undefined || d.year >= lot.earliestRedemptionYear) return;
+            const entry = early.get(lot.position) ?? { amount: 0, clawback: 0, surcharge: 0 };
+            const clawback = lot.taxSaved * redeemed;
+            entry.amount += lot.amount * redeemed;
+            entry.clawback += clawback;
+            entry.surcharge += surchargeFor(lot, clawback, d.year);
+            early.set(lot.position, entry);
+        });
+        early.forEach((entry, j) => {
+            issues.push({
+                kind: 'earlyRedemption',
+                symbol: positions[j].symbol,
+                fundType: positionFundType(positions[j]) as DeductibleFundType,
+                year: d.year,
+                age: d.age,
+                redeemedAmount: entry.amount,
+                clawback: entry.clawback,
+                surcharge: entry.surcharge,
+            });
+        });
+
+        // Type-wide rules: any redemption before the type may be redeemed breaks them
+        for (const fundType of Array.from(firstPurchase.keys())) {
+            if (HOLDING_RULES[fundType].clawbackYears === undefined || broken.has(fundType)) continue;
+            const locked = lots.some((lot) => lot.fundType === fundType && lot.year <= d.year && d.year < lot.earliestRedemptionYear);
+            if (locked) breakType(fundType, 'earlyRedemption', d, share);
+        }
+    }
+
+    return {
+        lots,
+        issues,
+        totalClawback: issues.reduce((acc, issue) => acc + issue.clawback, 0),
+        totalSurcharge: issues.reduce((acc, issue) => acc + issue.surcharge, 0),
+    };
+};
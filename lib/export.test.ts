@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, csvDelimiter, ExportTable, toCsv, toXlsx } from '@/lib/export';
+
+const TABLE: ExportTable = {
+    name: 'Projection',
+    columns: [
+        { header: 'Year', format: 'integer' },
+        { header: 'Value', format: 'amount' },
+        { header: 'Return', format: 'percent' },
+        { header: 'Note' },
+    ],
+    rows: [
+        [1, 1234567.891, 0.085, 'Lump sum; "bonus"'],
+        [2, null, Infinity, 'Line\nbreak'],
+    ],
+};
+
+interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+    crc: number;
+}
+
+// Reads a ZIP of stored entries through its end of central directory record, checking every signature
+const unzip = (bytes: Uint8Array): ZipEntry[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const decoder = new TextDecoder();
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    const centralSize = view.getUint32(end + 12, true);
+    let central = view.getUint32(end + 16, true);
+    expect(central + centralSize).toBe(end);
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(central, true)).toBe(0x02014b50);
+        const crc = view.getUint32(central + 16, true);
+        const size = view.getUint32(central + 24, true);
+        const nameLength = view.getUint16(central + 28, true);
+        const local = view.getUint32(central + 42, true);
+        const name = decoder.decode(bytes.subarray(central + 46, central + 46 + nameLength));
+
+        expect(view.getUint32(local, true)).toBe(0x04034b50);
+        expect(view.getUint16(local + 8, true)).toBe(0); // Stored
+        expect(view.getUint32(local + 14, true)).toBe(crc);
+        expect(view.getUint32(local + 18, true)).toBe(size);
+        const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+        entries.push({ name, data: bytes.subarray(start, start + size), crc });
+        central += 46 + nameLength;
+    }
+    return entries;
+};
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array(0))).toBe(0);
+    });
+});
+
+describe('toXlsx', () => {
+    it('writes a ZIP whose entries match their checksums', () => {
+        const entries = unzip(toXlsx([TABLE, { ...TABLE, name: 'Inputs: [a/b]' }]));
+        expect(entries.map((e) => e.name)).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/workbook.xml',
+            'xl/_rels/workbook.xml.rels',
+            'xl/styles.xml',
+            'xl/worksheets/sheet1.xml',
+            'xl/worksheets/sheet2.xml',
+        ]);
+        for (const entry of entries) expect(crc32(entry.data)).toBe(entry.crc);
+
+        const text = (name: string) => new TextDecoder().decode(entries.find((e) => e.name === name)!.data);
+        expect(text('xl/workbook.xml')).toContain('<sheet name="Inputs   a b " sheetId="2" r:id="rId2"/>');
+        const sheet = text('xl/worksheets/sheet1.xml');
+        expect(sheet).toContain('<c r="B2" s="2"><v>1234567.891</v></c>');
+        expect(sheet).toContain('<t xml:space="preserve">Lump sum; &quot;bonus&quot;</t>');
+        expect(sheet).not.toContain('r="B3"');
+    });
+});
+
+describe('toCsv', () => {
+    it('uses a comma delimiter and a decimal point for en-US', () => {
+        expect(csvDelimiter('en-US')).toBe(',');
+        expect(toCsv([TABLE], 'en-US').split('\r\n').slice(0, 3)).toEqual([
+            'Projection',
+            'Year,Value,Return,Note',
+            '1,1234567.89,8.5%,"Lump sum; ""bonus"""',
+        ]);
+    });
+
+    it('uses a semicolon delimiter and a decimal comma for de-DE', () => {
+        expect(csvDelimiter('de-DE')).toBe(';');
+        // Decimal commas need no quoting once the delimiter is a semicolon
+        const csv = toCsv([TABLE, { ...TABLE, name: 'Inputs' }], 'de-DE');
+        expect(csv.split('\r\n').slice(0, 7)).toEqual([
+            'Projection',
+            'Year;Value;Return;Note',
+            '1;1234567,89;8,5\u00a0%;"Lump sum; ""bonus"""',
+            '2;;;"Line\nbreak"',
+            '',
+            'Inputs',
+            'Year;Value;Return;Note',
+        ]);
+        expect(csv.endsWith('"Line\nbreak"\r\n')).toBe(true);
+    });
+});
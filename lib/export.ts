@@ -0,0 +1,538 @@
+import type { Position } from '@/components/Portfolio';
+import type { ProjectionMethod } from '@/components/ParametersPanel';
+import type { YearlyData } from '@/lib/projection';
+import type { ScenarioInputs } from '@/lib/scenarios';
+import { positionVolatility } from '@/lib/risk';
+
+// --- TYPE DEFINITIONS --- //
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * How a column's numbers are written: CSV formats them for the chosen locale, XLSX stores the raw
+ * number with a number format so the spreadsheet displays it in the reader's own locale.
+ * - 'integer': whole numbers without grouping (years, ages, counts)
+ * - 'amount':  money, two decimals
+ * - 'decimal': plain number, four decimals at most
+ * - 'percent': a decimal fraction shown as a percentage (0.085 -> 8.5%)
+ */
+export type ExportNumberFormat = 'integer' | 'amount' | 'decimal' | 'percent';
+
+export type ExportCell = string | number | null;
+
+export interface ExportColumn {
+    header: string;
+    format?: ExportNumberFormat; // Applies to the column's numeric cells; text cells are written as they are
+}
+
+/**
+ * One table of the export: a CSV section or an XLSX sheet.
+ */
+export interface ExportTable {
+    name: string; // At most 31 characters, the XLSX sheet name limit
+    columns: ExportColumn[];
+    rows: ExportCell[][];
+}
+
+/**
+ * Everything the calculator used to produce the projection, recorded at the top of the export.
+ */
+export interface ExportContext {
+    inputs: ScenarioInputs;
+    method: ProjectionMethod;   // Engine that actually produced the exported series, after any fallback
+    expectedReturn: number;     // Portfolio expected return, as a decimal
+    volatility: number;         // Portfolio volatility, as a decimal
+    bootstrap?: { method: string; blockLength: number; periods: number }; // When the series was resampled from history
+    generatedAt: Date;
+}
+
+// --- CONSTANTS --- //
+
+export const EXPORT_LOCALES = ['en-US', 'en-GB', 'th-TH', 'de-DE', 'fr-FR'];
+
+const METHOD_LABELS: Record<ProjectionMethod, string> = {
+    analytical: 'Semi-analytical (lognormal moment matching)',
+    monteCarlo: 'Monte Carlo',
+    overlay: 'Semi-analytical with Monte Carlo overlay',
+    bootstrap: 'Historical bootstrap',
+};
+
+// --- TABLES --- //
+
+/**
+ * Run metadata: model method and the parameters that are not in the inputs table.
+ * @param {ExportContext} context - The projection's context.
+ * @param {string} locale - Locale the CSV numbers are formatted in.
+ * @returns {ExportTable} Field and value rows.
+ */
+export const metadataTable = (context: ExportContext, locale: string): ExportTable => {
+    const { inputs } = context;
+    const simulated = context.method !== 'analytical';
+    const rows: ExportCell[][] = [
+        ['Generated', context.generatedAt.toISOString()],
+        ['Currency', 'THB'],
+        ['Number Locale', locale],
+        ['Method', METHOD_LABELS[context.method]],
+        ['Return Model', inputs.returnModel === 'lognormal' ? 'Lognormal gross returns' : 'Normal simple returns'],
+        ['Time Step', inputs.timeStep],
+        ['Contribution Timing', inputs.contributionTiming === 'begin' ? 'Beginning of step' : 'End of step'],
+        ['Fan Percentiles', inputs.percentiles.map((p) => `P${p}-P${100 - p}`).join(' ')],
+        ['Portfolio Expected Return (%)', context.expectedReturn * 100],
+        ['Portfolio Volatility (%)', context.volatility * 100],
+        ['Glide Path', inputs.glidePath.mode],
+    ];
+    if (simulated) {
+        rows.push(['Simulated Paths', inputs.numPaths], ['Seed', inputs.seed]);
+    }
+    if (context.bootstrap) {
+        rows.push(
+            ['Bootstrap Method', context.bootstrap.method],
+            ['Bootstrap Block Length', context.bootstrap.blockLength],
+            ['Historical Periods', context.bootstrap.periods],
+        );
+    }
+    return {
+        name: 'Metadata',
+        columns: [{ header: 'Field' }, { header: 'Value', format: 'decimal' }],
+        rows,
+    };
+};
+
+/**
+ * The full yearly series: cash flows, every fan percentile, central values, fees and the same in
+ * today's money, plus each contribution stream's investment and value at expected return.
+ * @param {YearlyData[]} data - Nominal yearly data as returned by the engines.
+ * @param {string[]} streamLabels - Label of each contribution stream, in `investmentBreakdown` order.
+ * @returns {ExportTable} One row per year.
+ */
+export const yearlyDataTable = (data: YearlyData[], streamLabels: string[]): ExportTable => {
+    const percentiles = data[0]?.bands.map((b) => b.p) ?? [];
+    const hasDepletion = data.some((d) => d.depletionProbability !== undefined);
+    const amount = (header: string): ExportColumn => ({ header, format: 'amount' });
+    const bandHeaders = (prefix: string) => [
+        ...percentiles.map((p) => amount(`${prefix}P${p}`)),
+        ...[...percentiles].reverse().map((p) => amount(`${prefix}P${100 - p}`)),
+    ];
+    const bandValues = (bands: YearlyData['bands']) => [
+        ...bands.map((b) => b.low),
+        ...[...bands].reverse().map((b) => b.high),
+    ];
+
+    const columns: ExportColumn[] = [
+        { header: 'Year', format: 'integer' },
+        { header: 'Age', format: 'integer' },
+        amount('Annual Investment'),
+        amount('Lump Sum'),
+        amount('Withdrawal'),
+        amount('Total Annual Investment'),
+        amount('Total Lump Sum Investment'),
+        amount('Total Investment'),
+        amount('Total Withdrawal'),
+        amount('Mean'),
+        amount('Median'),
+        amount('At Expected Return'),
+        ...bandHeaders(''),
+        amount('Total Return'),
+        amount('Fees'),
+        amount('Total Fees'),
+        amount('Fee Gap'),
+        ...(hasDepletion ? [{ header: 'Depletion Probability', format: 'percent' as const }] : []),
+        { header: 'Deflator', format: 'decimal' },
+        amount('Real Mean'),
+        amount('Real Median'),
+        amount('Real At Expected Return'),
+        ...bandHeaders('Real '),
+        ...streamLabels.map((label) => amount(`Investment: ${label}`)),
+        ...streamLabels.map((label) => amount(`Value at Expected Return: ${label}`)),
+        amount('Value at Expected Return: Lump Sums'),
+    ];
+    const rows = data.map((d) => [
+        d.year,
+        d.age,
+        d.investment,
+        d.lumpSum,
+        d.withdrawal,
+        d.totalAnnualInvestment,
+        d.totalLumpSumInvestment,
+        d.totalInvestment,
+        d.totalWithdrawal,
+        d.meanCase,
+        d.medianCase,
+        d.deterministicCase,
+        ...bandValues(d.bands),
+        d.investmentReturn,
+        d.fees,
+        d.totalFees,
+        d.feeGap,
+        ...(hasDepletion ? [d.depletionProbability ?? null] : []),
+        d.deflator,
+        d.realMeanCase,
+        d.realMedianCase,
+        d.realDeterministicCase,
+        ...bandValues(d.realBands),
+        ...streamLabels.map((_, i) => d.investmentBreakdown[i] ?? 0),
+        ...streamLabels.map((_, i) => d.streamValues[i] ?? 0),
+        d.lumpSumValue,
+    ]);
+    return { name: 'Projection', columns, rows };
+};
+
+/**
+ * The input assumptions, in the units the calculator edits them in.
+ * @param {ScenarioInputs} inputs - The inputs.
+ * @returns {ExportTable} Parameter, value and unit rows.
+ */
+export const inputsTable = (inputs: ScenarioInputs): ExportTable => {
+    const rows: ExportCell[][] = [
+        ['Age', inputs.age, 'years'],
+        ['Projection Years', inputs.projectionYears, 'years'],
+        ['Retirement Age', inputs.retirementAge, 'years'],
+        ['Annual Withdrawal', inputs.annualWithdrawal, 'THB'],
+        ['Withdrawal Growth', inputs.withdrawalGrowth, '% per year'],
+        ['Contribution Growth', inputs.contributionGrowth, '% per year'],
+        ['Inflation Rate', inputs.inflationRate, '% per year'],
+        ['Inflation Volatility', inputs.inflationVolatility, '% per year'],
+        ['Gross Income', inputs.grossIncome, 'THB'],
+        ['Other Deductions', inputs.otherDeductions, 'THB'],
+        ['Provident Fund Contribution', inputs.providentFundContribution, 'THB'],
+        ['Goal Confidence', inputs.goalConfidence, '%'],
+        ...inputs.lumpSums.map((l): ExportCell[] => [`Lump Sum: ${l.label || 'Lump Sum'} (Year ${l.year})`, l.amount, 'THB']),
+        ...inputs.goals.map((g): ExportCell[] => [`Goal: ${g.label} (Age ${g.targetAge}, ${g.priority})`, g.amount, g.inTodaysMoney ? "THB, today's money" : 'THB']),
+    ];
+    if (inputs.glidePath.mode === 'linear') {
+        rows.push(
+            ['Glide Path Start Age', inputs.glidePath.startAge, 'years'],
+            ['Glide Path Target Age', inputs.glidePath.targetAge, 'years'],
+            ['Glide Path Equity at Start', inputs.glidePath.startEquityShare, '%'],
+            ['Glide Path Equity at Target', inputs.glidePath.endEquityShare, '%'],
+        );
+    } else if (inputs.glidePath.mode === 'table') {
+        rows.push(...inputs.glidePath.table.map((row): ExportCell[] => [`Glide Path Equity at Age ${row.age}`, row.equityShare, '%']));
+    }
+    return {
+        name: 'Inputs',
+        columns: [{ header: 'Parameter' }, { header: 'Value', format: 'decimal' }, { header: 'Unit' }],
+        rows,
+    };
+};
+
+/**
+ * The positions with their defaults resolved (volatility, schedule and fees).
+ * @param {Position[]} positions - The portfolio.
+ * @param {ScenarioInputs} inputs - Supplies the defaults positions fall back to.
+ * @returns {ExportTable} One row per position.
+ */
+export const positionsTable = (positions: Position[], inputs: ScenarioInputs): ExportTable => {
+    const percent = (header: string): ExportColumn => ({ header: `${header} (%)`, format: 'decimal' });
+    return {
+        name: 'Positions',
+        columns: [
+            { header: 'Symbol' },
+            { header: 'Asset Class' },
+            { header: 'Fund Type' },
+            { header: 'Annual Investment', format: 'amount' },
+            percent('Expected Return'),
+            percent('Volatility'),
+            { header: 'Start Year', format: 'integer' },
+            { header: 'End Year', format: 'integer' },
+            percent('Contribution Growth'),
+            percent('Expense Ratio'),
+            percent('Front Load'),
+            percent('Back Load'),
+        ],
+        rows: positions.map((pos) => [
+            pos.symbol,
+            pos.assetClass,
+            pos.fundType ?? null,
+            pos.investmentAmount,
+            pos.expectedReturn,
+            positionVolatility(pos) * 100,
+            pos.startYear ?? 1,
+            pos.endYear ?? inputs.projectionYears,
+            pos.contributionGrowth ?? inputs.contributionGrowth,
+            pos.expenseRatio ?? 0,
+            pos.frontLoad ?? 0,
+            pos.backLoad ?? 0,
+        ]),
+    };
+};
+
+// --- CSV --- //
+
+/**
+ * Field delimiter for a locale: a semicolon where the decimal separator is a comma, as spreadsheets in
+ * those locales expect.
+ */
+export const csvDelimiter = (locale: string) => {
+    const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value;
+    return decimal === ',' ? ';' : ',';
+};
+
+const NUMBER_FORMAT_OPTIONS: Record<ExportNumberFormat, Intl.NumberFormatOptions> = {
+    integer: { maximumFractionDigits: 0 },
+    amount: { minimumFractionDigits: 2, maximumFractionDigits: 2 },
+    decimal: { maximumFractionDigits: 4 },
+    percent: { style: 'percent', maximumFractionDigits: 2 },
+};
+
+/**
+ * The export as one CSV document: the metadata table first, then each table under its name, separated
+ * by blank lines. Numbers use the locale's decimal separator without grouping, so spreadsheets read
+ * them back as numbers.
+ * @param {ExportTable[]} tables - Tables in output order, metadata first.
+ * @param {string} locale - BCP 47 locale for the numbers, e.g. 'th-TH'.
+ * @returns {string} CSV text.
+ */
+export const toCsv = (tables: ExportTable[], locale: string): string => {
+    const delimiter = csvDelimiter(locale);
+    const formatters = Object.fromEntries(
+        Object.entries(NUMBER_FORMAT_OPTIONS).map(([key, options]) => [key, new Intl.NumberFormat(locale, { ...options, useGrouping: false })]),
+    ) as Record<ExportNumberFormat, Intl.NumberFormat>;
+    const quote = (text: string) => (/["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text);
+    const cell = (value: ExportCell, format: ExportNumberFormat = 'decimal') => {
+        if (value === null) return '';
+        if (typeof value === 'number') return Number.isFinite(value) ? quote(formatters[format].format(value)) : '';
+        return quote(value);
+    };
+    const section = (table: ExportTable) => [
+        quote(table.name),
+        table.columns.map((c) => quote(c.header)).join(delimiter),
+        ...table.rows.map((row) => row.map((value, i) => cell(value, table.columns[i]?.format)).join(delimiter)),
+    ].join('\r\n');
+    return tables.map(section).join('\r\n\r\n') + '\r\n';
+};
+
+// --- XLSX --- //
+
+// Built-in SpreadsheetML number formats: 1 = "0", 4 = "#,##0.00", 10 = "0.00%"; "0.####" is added as 164
+const XLSX_STYLES: Record<ExportNumberFormat | 'header', number> = { integer: 1, amount: 2, decimal: 3, percent: 4, header: 5 };
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<numFmts count="1"><numFmt numFmtId="164" formatCode="0.####"/></numFmts>'
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="6">'
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+    + '</cellXfs></styleSheet>';
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Spreadsheet column letters of a zero-based index: 0 -> A, 26 -> AA.
+ */
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    return name;
+};
+
+const sheetXml = (table: ExportTable) => {
+    const cellXml = (value: ExportCell, ref: string, style: number) => {
+        if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+        if (typeof value === 'number') return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+        return `<c r="${ref}" t="inlineStr"${style === XLSX_STYLES.header ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    };
+    const header = table.columns.map((c, i) => cellXml(c.header, `${columnName(i)}1`, XLSX_STYLES.header)).join('');
+    const body = table.rows.map((row, r) => {
+        const cells = row.map((value, i) => cellXml(value, `${columnName(i)}${r + 2}`, XLSX_STYLES[table.columns[i]?.format ?? 'decimal'])).join('');
+        return `<row r="${r + 2}">${cells}</row>`;
+    }).join('');
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<sheetData><row r="1">${header}</row>${body}</sheetData></worksheet>`;
+};
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * CRC-32 (IEEE 802.3) checksum of the bytes, as ZIP stores for each entry.
+ * @param {Uint8Array} bytes - Data to check.
+ * @returns {number} The checksum as an unsigned 32-bit integer.
+ */
+export const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * A ZIP archive of uncompressed ("stored") entries, which every XLSX reader accepts.
+ * @param {{ name: string; data: Uint8Array }[]} files - Entries in archive order.
+ * @returns {Uint8Array} The archive.
+ */
+const zipStored = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+    const header = (size: number, write: (view: DataView) => void) => {
+        const bytes = new Uint8Array(size);
+        write(new DataView(bytes.buffer));
+        return bytes;
+    };
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const crc = crc32(file.data);
+        // Version 2.0, UTF-8 names, stored, DOS time and date 1980-01-01 00:00
+        const local = header(30, (v) => {
+            v.setUint32(0, 0x04034b50, true);
+            v.setUint16(4, 20, true);
+            v.setUint16(6, 0x0800, true);
+            v.setUint16(8, 0, true);
+            v.setUint16(10, 0, true);
+            v.setUint16(12, 0x21, true);
+            v.setUint32(14, crc, true);
+            v.setUint32(18, file.data.length, true);
+            v.setUint32(22, file.data.length, true);
+            v.setUint16(26, name.length, true);
+            v.setUint16(28, 0, true);
+        });
+        central.push(header(46, (v) => {
+            v.setUint32(0, 0x02014b50, true);
+            v.setUint16(4, 20, true);
+            v.setUint16(6, 20, true);
+            v.setUint16(8, 0x0800, true);
+            v.setUint16(10, 0, true);
+            v.setUint16(12, 0, true);
+            v.setUint16(14, 0x21, true);
+            v.setUint32(16, crc, true);
+            v.setUint32(20, file.data.length, true);
+            v.setUint32(24, file.data.length, true);
+            v.setUint16(28, name.length, true);
+            v.setUint32(42, offset, true);
+        }), name);
+        chunks.push(local, name, file.data);
+        offset += local.length + name.length + file.data.length;
+    }
+
+    const centralSize = central.reduce((acc, c) => acc + c.length, 0);
+    const end = header(22, (v) => {
+        v.setUint32(0, 0x06054b50, true);
+        v.setUint16(8, files.length, true);
+        v.setUint16(10, files.length, true);
+        v.setUint32(12, centralSize, true);
+        v.setUint32(16, offset, true);
+    });
+    const parts = [...chunks, ...central, end];
+    const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        out.set(part, position);
+        position += part.length;
+    }
+    return out;
+};
+
+/**
+ * The export as an XLSX workbook with one sheet per table. Numbers are stored unformatted with a
+ * number format, so the spreadsheet shows them in its own locale; headers are bold and frozen.
+ * @param {ExportTable[]} tables - Tables in sheet order.
+ * @returns {Uint8Array} The workbook file.
+ */
+export const toXlsx = (tables: ExportTable[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+    // Sheet names: at most 31 characters, none of []:*?/\
+    const names = tables.map((t) => t.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+    const files: { name: string; content: string }[] = [
+        {
+            name: '[Content_Types].xml',
+            content: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+                + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+                + tables.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+                + '</Types>',
+        },
+        {
+            name: '_rels/.rels',
+            content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+                + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+                + '</Relationships>',
+        },
+        {
+            name: 'xl/workbook.xml',
+            content: `${xml}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>`
+                + names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+                + '</sheets></workbook>',
+        },
+        {
+            name: 'xl/_rels/workbook.xml.rels',
+            content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+                + tables.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+                + `<Relationship Id="rId${tables.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+                + '</Relationships>',
+        },
+        { name: 'xl/styles.xml', content: STYLES_XML },
+        ...tables.map((table, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(table) })),
+    ];
+    return zipStored(files.map((f) => ({ name: f.name, data: encoder.encode(f.content) })));
+};
+
+// --- DOCUMENT --- //
+
+/**
+ * Every table of an export, metadata first.
+ * @param {ExportContext} context - Inputs and model settings.
+ * @param {YearlyData[]} data - Nominal yearly data.
+ * @param {string} locale - Locale recorded in the metadata.
+ * @returns {ExportTable[]} Metadata, projection, inputs and positions.
+ */
+export const exportTables = (context: ExportContext, data: YearlyData[], locale: string): ExportTable[] => {
+    const streamLabels = context.inputs.positions.map((pos) => pos.symbol || pos.assetClass);
+    return [
+        metadataTable(context, locale),
+        yearlyDataTable(data, streamLabels),
+        inputsTable(context.inputs),
+        positionsTable(context.inputs.positions, context.inputs),
+    ];
+};
+
+/**
+ * Saves an export through the browser's download prompt. CSV gets a byte order mark so spreadsheets
+ * read non-ASCII labels as UTF-8.
+ * @param {ExportTable[]} tables - Output of `exportTables`.
+ * @param {ExportFormat} format - File format.
+ * @param {string} locale - Locale for CSV numbers.
+ * @param {string} baseName - File name without extension.
+ */
+export const downloadExport = (tables: ExportTable[], format: ExportFormat, locale: string, baseName: string) => {
+    if (typeof window === 'undefined') return;
+    const blob = format === 'csv'
+        ? new Blob(['\uFEFF', toCsv(tables, locale)], { type: 'text/csv;charset=utf-8' })
+        : new Blob([toXlsx(tables)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}.${format}`;
+    // Some browsers only follow a link in the document, and revoking in the same task can cancel the download
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
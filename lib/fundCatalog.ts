@@ -0,0 +1,115 @@
+import { ASSET_CLASSES, AssetClass } from '@/lib/risk';
+import { FUND_TYPES, FundType } from '@/lib/tax';
+import builtInCatalog from './fundCatalog.json';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * A fund the user can pick when adding a position, with default assumptions that pre-fill the form.
+ */
+export interface CatalogFund {
+    symbol: string;
+    name: string;
+    assetClass: AssetClass;
+    fundType: FundType;
+    fee: number;            // Total expense ratio as a percentage per year, e.g. 0.9 for 0.9%
+    expectedReturn: number; // Default expected return as a percentage, e.g. 8 for 8%
+    volatility: number;     // Default volatility as a percentage, e.g. 16 for 16%
+}
+
+export interface FundCatalogParseResult {
+    funds: CatalogFund[] | null;
+    errors: string[];
+}
+
+// --- CONSTANTS --- //
+
+/**
+ * Funds shipped with the app. The figures are illustrative planning defaults, not fact-sheet data.
+ */
+export const BUILT_IN_FUND_CATALOG: CatalogFund[] = builtInCatalog as CatalogFund[];
+
+export const MAX_CATALOG_SUGGESTIONS = 8;
+
+const CSV_COLUMNS = ['symbol', 'name', 'assetClass', 'fundType', 'fee', 'expectedReturn', 'volatility'] as const;
+
+// --- PARSING --- //
+
+/**
+ * Parses a fund catalog CSV with the header `symbol,name,assetClass,fundType,fee,expectedReturn,volatility`
+ * (in any order, matched case-insensitively). Asset classes and fund types must be one of `ASSET_CLASSES`
+ * and `FUND_TYPES`; fee, return and volatility are percentages. Quoted cells may contain commas.
+ * @param {string} text - The CSV contents.
+ * @returns {FundCatalogParseResult} The funds, or null with the reasons the file was rejected.
+ */
+export const parseFundCatalogCsv = (text: string): FundCatalogParseResult => {
+    const rows = text
+        .split(/\r?\n/)
+        .filter((line) => line.trim().length > 0)
+        .map((line) => (line.match(/("([^"]|"")*"|[^,]*)(,|$)/g) ?? [])
+            .map((cell) => cell.replace(/,$/, '').trim().replace(/^"(.*)"$/, '$1').replace(/""/g, '"'))
+            .slice(0, -1));
+    if (rows.length < 2) return { funds: null, errors: ['The file needs a header row and at least one fund.'] };
+
+    const header = rows[0].map((name) => name.toLowerCase());
+    const index = Object.fromEntries(CSV_COLUMNS.map((c) => [c, header.indexOf(c.toLowerCase())])) as Record<typeof CSV_COLUMNS[number], number>;
+    const missing = CSV_COLUMNS.filter((c) => index[c] < 0);
+    if (missing.length > 0) return { funds: null, errors: [`Missing column(s): ${missing.join(', ')}.`] };
+
+    const errors: string[] = [];
+    const funds: CatalogFund[] = [];
+    const seen = new Set<string>();
+    rows.slice(1).forEach((row, r) => {
+        const cell = (c: typeof CSV_COLUMNS[number]) => row[index[c]] ?? '';
+        const number = (c: 'fee' | 'expectedReturn' | 'volatility') => {
+            const value = cell(c) === '' ? NaN : Number(cell(c));
+            if (!Number.isFinite(value)) errors.push(`Row ${r + 2}: ${c} "${cell(c)}" is not a number.`);
+            return value;
+        };
+        const symbol = cell('symbol');
+        const assetClass = ASSET_CLASSES.find((c) => c.toLowerCase() === cell('assetClass').toLowerCase());
+        const fundType = FUND_TYPES.find((t) => t.toLowerCase() === cell('fundType').toLowerCase());
+        if (!symbol) errors.push(`Row ${r + 2}: the symbol is empty.`);
+        else if (seen.has(symbol.toUpperCase())) errors.push(`Row ${r + 2}: ${symbol} is listed twice.`);
+        if (!assetClass) errors.push(`Row ${r + 2}: unknown asset class "${cell('assetClass')}". Expected one of: ${ASSET_CLASSES.join(', ')}.`);
+        if (!fundType) errors.push(`Row ${r + 2}: unknown fund type "${cell('fundType')}". Expected one of: ${FUND_TYPES.join(', ')}.`);
+        const fee = number('fee');
+        const expectedReturn = number('expectedReturn');
+        const volatility = number('volatility');
+        seen.add(symbol.toUpperCase());
+        if (symbol && assetClass && fundType) {
+            funds.push({ symbol, name: cell('name') || symbol, assetClass, fundType, fee, expectedReturn, volatility });
+        }
+    });
+
+    if (errors.length > 0) return { funds: null, errors };
+    return { funds, errors: [] };
+};
+
+// --- SEARCH --- //
+
+/**
+ * Funds matching a query, best matches first: symbols starting with the query, then symbols
+ * containing it, then names containing it. Matching ignores case and spaces.
+ * @param {CatalogFund[]} catalog - The catalog to search.
+ * @param {string} query - Text typed into the symbol field.
+ * @returns {CatalogFund[]} Up to `MAX_CATALOG_SUGGESTIONS` funds.
+ */
+export const searchFundCatalog = (catalog: CatalogFund[], query: string): CatalogFund[] => {
+    const normalize = (s: string) => s.toUpperCase().replace(/\s+/g, '');
+    const q = normalize(query);
+    if (!q) return [];
+    const rank = (fund: CatalogFund) => {
+        const symbol = normalize(fund.symbol);
+        if (symbol.startsWith(q)) return 0;
+        if (symbol.includes(q)) return 1;
+        if (normalize(fund.name).includes(q)) return 2;
+        return -1;
+    };
+    return catalog
+        .map((fund) => ({ fund, rank: rank(fund) }))
+        .filter(({ rank }) => rank >= 0)
+        .sort((a, b) => a.rank - b.rank || a.fund.symbol.localeCompare(b.fund.symbol))
+        .slice(0, MAX_CATALOG_SUGGESTIONS)
+        .map(({ fund }) => fund);
+};
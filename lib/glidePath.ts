@@ -0,0 +1,170 @@
+import type { Position } from '@/components/Portfolio';
+import type { YearReturnParams } from '@/lib/projection';
+import { ASSET_CLASSES, AssetClass, calculatePortfolioVolatility, CorrelationMatrix } from '@/lib/risk';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * How the equity share of the portfolio changes with age:
+ * - 'off':    the weights of the positions' investment amounts hold for the whole horizon
+ * - 'linear': the equity share moves in a straight line from a start age to a target age
+ * - 'table':  the equity share is read off a per-age table, interpolated between rows
+ */
+export type GlidePathMode = 'off' | 'linear' | 'table';
+
+export interface GlidePathPoint {
+    age: number;
+    equityShare: number; // as a percentage of the portfolio, e.g. 60 for 60%
+}
+
+export interface GlidePath {
+    mode: GlidePathMode;
+    startAge: number;         // 'linear': the share starts moving after this age
+    targetAge: number;        // 'linear': the share reaches its end value at this age
+    startEquityShare: number; // 'linear': equity share up to `startAge`, as a percentage
+    endEquityShare: number;   // 'linear': equity share from `targetAge` on, as a percentage
+    table: GlidePathPoint[];  // 'table': rows in any order; flat before the first and after the last age
+}
+
+/**
+ * The portfolio mix in one projection year.
+ */
+export interface AllocationYear {
+    year: number;
+    age: number;
+    equityShare: number;                    // Decimal, e.g. 0.6
+    weights: number[];                      // Decimal weight of each position
+    byAssetClass: Record<AssetClass, number>; // Decimal weight of each asset class
+    expectedReturn: number;                 // Weighted expected return of the year's mix
+    volatility: number;                     // Volatility of the year's mix
+}
+
+// --- CONSTANTS --- //
+
+export const GLIDE_PATH_MODES: GlidePathMode[] = ['off', 'linear', 'table'];
+
+export const EQUITY_ASSET_CLASSES: AssetClass[] = ['Local Equity', 'Global Equity'];
+
+export const DEFAULT_GLIDE_PATH: GlidePath = {
+    mode: 'off',
+    startAge: 45,
+    targetAge: 60,
+    startEquityShare: 80,
+    endEquityShare: 30,
+    table: [
+        { age: 35, equityShare: 80 },
+        { age: 50, equityShare: 60 },
+        { age: 60, equityShare: 30 },
+    ],
+};
+
+// --- HELPERS --- //
+
+export const isEquity = (assetClass: string) => EQUITY_ASSET_CLASSES.includes(assetClass as AssetClass);
+
+/**
+ * Whether the positions hold both equity and non-equity, so that a glide path has something to shift between.
+ */
+export const canFollowGlidePath = (positions: Position[]) => {
+    const held = positions.filter((pos) => pos.investmentAmount > 0);
+    return held.some((pos) => isEquity(pos.assetClass)) && held.some((pos) => !isEquity(pos.assetClass));
+};
+
+/**
+ * Target equity share at an age, or null when the glide path is off or its table is empty.
+ * @param {GlidePath} glidePath - The glide path.
+ * @param {number} age - The age.
+ * @returns {number | null} The share as a decimal.
+ */
+export const equityShareAtAge = (glidePath: GlidePath, age: number): number | null => {
+    const clampShare = (pct: number) => Math.min(1, Math.max(0, pct / 100));
+    if (glidePath.mode === 'linear') {
+        const { startAge, targetAge, startEquityShare, endEquityShare } = glidePath;
+        if (age <= startAge) return clampShare(startEquityShare);
+        if (age >= targetAge) return clampShare(endEquityShare);
+        return clampShare(startEquityShare + (endEquityShare - startEquityShare) * (age - startAge) / (targetAge - startAge));
+    }
+    if (glidePath.mode === 'table') {
+        const rows = glidePath.table
+            .filter((row) => Number.isFinite(row.age) && Number.isFinite(row.equityShare))
+            .sort((a, b) => a.age - b.age);
+        if (rows.length === 0) return null;
+        if (age <= rows[0].age) return clampShare(rows[0].equityShare);
+        const next = rows.findIndex((row) => row.age >= age);
+        if (next < 0) return clampShare(rows[rows.length - 1].equityShare);
+        const [a, b] = [rows[next - 1], rows[next]];
+        return clampShare(a.equityShare + (b.equityShare - a.equityShare) * (age - a.age) / (b.age - a.age));
+    }
+    return null;
+};
+
+/**
+ * Weights of the positions for a target equity share. Equity and non-equity positions keep their
+ * proportions within each side; without a target, or without both sides, the investment-amount
+ * weights are returned unchanged.
+ * @param {Position[]} positions - The portfolio.
+ * @param {number | null} equityShare - Target equity share as a decimal.
+ * @returns {number[]} One weight per position, summing to 1 (all zero for an empty portfolio).
+ */
+export const allocationWeights = (positions: Position[], equityShare: number | null): number[] => {
+    const total = positions.reduce((acc, pos) => acc + pos.investmentAmount, 0);
+    if (total <= 0) return positions.map(() => 0);
+    const base = positions.map((pos) => pos.investmentAmount / total);
+    if (equityShare === null || !canFollowGlidePath(positions)) return base;
+    const equityBase = base.reduce((acc, w, i) => acc + (isEquity(positions[i].assetClass) ? w : 0), 0);
+    return base.map((w, i) => (isEquity(positions[i].assetClass)
+        ? w * equityShare / equityBase
+        : w * (1 - equityShare) / (1 - equityBase)));
+};
+
+// --- SCHEDULE --- //
+
+/**
+ * The portfolio mix, expected return and volatility of every projection year. Year `t` is lived at
+ * age `age + t - 1` and is invested at that age's target mix, as if the portfolio were rebalanced to
+ * the glide path at the start of each year.
+ * @param {Position[]} positions - The portfolio.
+ * @param {CorrelationMatrix} correlations - Asset class correlations.
+ * @param {GlidePath} glidePath - The glide path; 'off' gives the same mix every year.
+ * @param {number} age - Age in the first projection year.
+ * @param {number} projectionYears - Number of years.
+ * @returns {AllocationYear[]} One entry per year.
+ */
+export const allocationSchedule = (
+    positions: Position[],
+    correlations: CorrelationMatrix,
+    glidePath: GlidePath,
+    age: number,
+    projectionYears: number,
+): AllocationYear[] => {
+    return Array.from({ length: Math.max(0, projectionYears) }, (_, i) => {
+        const yearAge = age + i;
+        const weights = allocationWeights(positions, equityShareAtAge(glidePath, yearAge));
+        const byAssetClass = Object.fromEntries(ASSET_CLASSES.map((c) => [c, 0])) as Record<AssetClass, number>;
+        positions.forEach((pos, j) => {
+            if (pos.assetClass in byAssetClass) byAssetClass[pos.assetClass as AssetClass] += weights[j];
+        });
+        const reweighted = positions.map((pos, j) => ({ ...pos, investmentAmount: weights[j] }));
+        return {
+            year: i + 1,
+            age: yearAge,
+            equityShare: weights.reduce((acc, w, j) => acc + (isEquity(positions[j].assetClass) ? w : 0), 0),
+            weights,
+            byAssetClass,
+            expectedReturn: positions.reduce((acc, pos, j) => acc + weights[j] * (pos.expectedReturn / 100), 0),
+            volatility: calculatePortfolioVolatility(reweighted, correlations),
+        };
+    });
+};
+
+/**
+ * Per-year return parameters for the projection engines, or undefined when the glide path is off
+ * (the engines then use the fixed portfolio return and volatility).
+ * @param {AllocationYear[]} schedule - Output of `allocationSchedule`.
+ * @param {GlidePath} glidePath - The glide path the schedule was built with.
+ * @returns {YearReturnParams[] | undefined} One entry per year.
+ */
+export const glidePathReturns = (schedule: AllocationYear[], glidePath: GlidePath): YearReturnParams[] | undefined => {
+    if (glidePath.mode === 'off') return undefined;
+    return schedule.map(({ expectedReturn, volatility }) => ({ expectedReturn, volatility }));
+};
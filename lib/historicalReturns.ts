@@ -0,0 +1,144 @@
+import type { Position } from '@/components/Portfolio';
+import type { BootstrapInput } from '@/lib/projection';
+import { ASSET_CLASSES, AssetClass } from '@/lib/risk';
+
+// --- TYPE DEFINITIONS --- //
+
+export type ReturnFrequency = 'annual' | 'monthly';
+export type BootstrapMethod = 'iid' | 'block';
+
+/**
+ * Historical returns per asset class, one row per period. Rows stay aligned across
+ * classes so resampling a period keeps the classes' co-movement in that period.
+ */
+export interface HistoricalReturns {
+    frequency: ReturnFrequency;
+    periods: string[];                                // Period labels in time order, e.g. '2008' or '2008-10'
+    returns: Partial<Record<AssetClass, number[]>>;   // Decimal returns aligned with `periods`; NaN where missing
+}
+
+export interface HistoricalReturnsParseResult {
+    history: HistoricalReturns | null;
+    errors: string[];
+}
+
+// --- CONSTANTS --- //
+
+export const PERIODS_PER_YEAR: Record<ReturnFrequency, number> = { annual: 1, monthly: 12 };
+
+const ANNUAL_PERIOD = /^\d{4}$/;
+const MONTHLY_PERIOD = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// --- PARSING --- //
+
+/**
+ * Parses a CSV of historical returns. The first column holds the period (`YYYY` for annual
+ * or `YYYY-MM` for monthly data) and every other column is an asset class from `ASSET_CLASSES`
+ * (matched case-insensitively) with returns in percent. Empty cells are allowed; unknown
+ * columns, malformed periods and returns at or below -100% are reported as errors.
+ * @param {string} text - The CSV contents.
+ * @returns {HistoricalReturnsParseResult} The parsed series, or null with the reasons it was rejected.
+ */
+export const parseHistoricalReturnsCsv = (text: string): HistoricalReturnsParseResult => {
+    const rows = text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .map((line) => line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1')));
+    if (rows.length < 2) return { history: null, errors: ['The file needs a header row and at least one period.'] };
+
+    const errors: string[] = [];
+    const columns = rows[0].slice(1).map((name) => ASSET_CLASSES.find((c) => c.toLowerCase() === name.toLowerCase()));
+    rows[0].slice(1).forEach((name, i) => {
+        if (!columns[i]) errors.push(`Unknown asset class column "${name}". Expected one of: ${ASSET_CLASSES.join(', ')}.`);
+    });
+    if (columns.length === 0) errors.push('No asset class columns found.');
+
+    const first = rows[1][0];
+    const frequency: ReturnFrequency | null = ANNUAL_PERIOD.test(first) ? 'annual' : MONTHLY_PERIOD.test(first) ? 'monthly' : null;
+    if (!frequency) errors.push(`Period "${first}" is neither YYYY nor YYYY-MM.`);
+
+    const periods: string[] = [];
+    const returns: Partial<Record<AssetClass, number[]>> = {};
+    for (const c of columns) if (c) returns[c] = [];
+
+    rows.slice(1).forEach((row, r) => {
+        const period = row[0];
+        if (frequency && !(frequency === 'annual' ? ANNUAL_PERIOD : MONTHLY_PERIOD).test(period)) {
+            errors.push(`Row ${r + 2}: period "${period}" does not match the ${frequency} format of the first row.`);
+        }
+        periods.push(period);
+        columns.forEach((c, i) => {
+            if (!c) return;
+            const cell = row[i + 1] ?? '';
+            const value = cell === '' ? NaN : Number(cell);
+            if (cell !== '' && !Number.isFinite(value)) errors.push(`Row ${r + 2}: "${cell}" is not a number.`);
+            else if (value <= -100) errors.push(`Row ${r + 2}: a return of ${cell}% would wipe out the ${c} holding.`);
+            returns[c]!.push(value / 100);
+        });
+    });
+
+    if (new Set(periods).size !== periods.length) errors.push('Periods must not repeat.');
+    for (let i = 1; i < periods.length; i++) {
+        if (periods[i] < periods[i - 1]) {
+            errors.push('Periods must be in chronological order.');
+            break;
+        }
+    }
+
+    if (errors.length > 0 || !frequency) return { history: null, errors };
+    return { history: { frequency, periods, returns }, errors: [] };
+};
+
+// --- PORTFOLIO SERIES --- //
+
+/**
+ * Weight of each asset class in the annual investment. Falls back to equal weights per
+ * position when nothing is invested yet, so the fan can still be previewed.
+ */
+const assetClassWeights = (positions: Position[]) => {
+    const total = positions.reduce((acc, p) => acc + p.investmentAmount, 0);
+    const weights = new Map<string, number>();
+    for (const p of positions) {
+        const w = total > 0 ? p.investmentAmount / total : 1 / positions.length;
+        weights.set(p.assetClass, (weights.get(p.assetClass) ?? 0) + w);
+    }
+    return weights;
+};
+
+/**
+ * Builds the bootstrap input for the current positions: each period's portfolio return is the
+ * weighted sum of the asset class returns, i.e. the portfolio is rebalanced every period.
+ * Periods missing a return for any held class are dropped.
+ * @param {HistoricalReturns} history - Parsed historical returns.
+ * @param {Position[]} positions - The positions providing the weights.
+ * @param {BootstrapMethod} method - IID resampling of single periods or block resampling.
+ * @param {number} blockLength - Block length in periods, used by the block bootstrap.
+ * @returns {{ input: BootstrapInput | null, missing: string[] }} The input, or null when a held asset class has no data.
+ */
+export const toBootstrapInput = (
+    history: HistoricalReturns,
+    positions: Position[],
+    method: BootstrapMethod,
+    blockLength: number,
+): { input: BootstrapInput | null; missing: string[] } => {
+    const weights = Array.from(assetClassWeights(positions).entries()).filter(([, w]) => w > 0);
+    const missing = weights.map(([c]) => c).filter((c) => !history.returns[c as AssetClass]);
+    if (weights.length === 0 || missing.length > 0) return { input: null, missing };
+
+    const periodReturns: number[] = [];
+    history.periods.forEach((_, t) => {
+        const r = weights.reduce((acc, [c, w]) => acc + w * history.returns[c as AssetClass]![t], 0);
+        if (Number.isFinite(r)) periodReturns.push(r);
+    });
+    if (periodReturns.length === 0) return { input: null, missing };
+
+    return {
+        input: {
+            periodReturns,
+            periodsPerYear: PERIODS_PER_YEAR[history.frequency],
+            blockLength: method === 'block' ? Math.max(1, Math.min(Math.round(blockLength), periodReturns.length)) : 1,
+        },
+        missing,
+    };
+};
@@ -0,0 +1,97 @@
+import type { Position } from '@/components/Portfolio';
+import { positionFundType } from '@/lib/tax';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * Validation message per invalid field of a position.
+ */
+export type PositionErrors = Partial<Record<keyof Position, string>>;
+
+// --- LIMITS --- //
+
+export const POSITION_LIMITS = {
+    expectedReturn: { min: -50, max: 50 },    // % per year
+    volatility: { min: 0, max: 100 },         // % per year
+    contributionGrowth: { min: 0, max: 15 },  // % per year
+    year: { min: 1, max: 50 },                // Projection years
+    expenseRatio: { min: 0, max: 10 },        // % per year
+    load: { min: 0, max: 10 },                // % of the amount invested or redeemed
+};
+
+// --- HELPERS --- //
+
+/**
+ * Short unique id for a position, stable across edits and reordering.
+ */
+export const createPositionId = () => `pos-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Gives every position without an id a new one, e.g. after loading data saved before positions had ids.
+ * @param {Position[]} positions - Positions that may lack ids.
+ * @returns {Position[]} The positions, each with an id.
+ */
+export const withPositionIds = (positions: Position[]): Position[] => {
+    return positions.map((pos) => (pos.id ? pos : { ...pos, id: createPositionId() }));
+};
+
+const outOfRange = (value: number | undefined, { min, max }: { min: number; max: number }) => {
+    return value !== undefined && (!Number.isFinite(value) || value < min || value > max);
+};
+
+// --- VALIDATION --- //
+
+/**
+ * Checks a position before it is added or saved. Symbols must be unique (ignoring case and
+ * surrounding spaces) among the other positions, and every number must be finite and within
+ * the limits the projection supports. Only SSF, RMF and ThaiESG positions may have a zero amount.
+ * @param {Position} position - The position as entered; unparseable numbers are NaN.
+ * @param {Position[]} others - The rest of the portfolio.
+ * @returns {PositionErrors} Messages for the invalid fields; empty when the position is valid.
+ */
+export const validatePosition = (position: Position, others: Position[]): PositionErrors => {
+    const errors: PositionErrors = {};
+    const symbol = position.symbol.trim().toUpperCase();
+    if (!symbol) {
+        errors.symbol = 'Enter a symbol.';
+    } else if (others.some((other) => other.id !== position.id && other.symbol.trim().toUpperCase() === symbol)) {
+        errors.symbol = 'This symbol is already in the portfolio.';
+    }
+
+    // A tax-advantaged fund may be left at 0, e.g. when the deduction optimizer suggests nothing for its type
+    if (positionFundType(position) === 'General') {
+        if (!Number.isFinite(position.investmentAmount) || position.investmentAmount <= 0) {
+            errors.investmentAmount = 'Enter an amount greater than zero.';
+        }
+    } else if (!Number.isFinite(position.investmentAmount) || position.investmentAmount < 0) {
+        errors.investmentAmount = 'Enter an amount of zero or more.';
+    }
+    if (outOfRange(position.expectedReturn, POSITION_LIMITS.expectedReturn)) {
+        errors.expectedReturn = `Enter a return between ${POSITION_LIMITS.expectedReturn.min}% and ${POSITION_LIMITS.expectedReturn.max}%.`;
+    }
+    if (outOfRange(position.volatility, POSITION_LIMITS.volatility)) {
+        errors.volatility = `Enter a volatility between ${POSITION_LIMITS.volatility.min}% and ${POSITION_LIMITS.volatility.max}%.`;
+    }
+    if (outOfRange(position.contributionGrowth, POSITION_LIMITS.contributionGrowth)) {
+        errors.contributionGrowth = `Enter a growth between ${POSITION_LIMITS.contributionGrowth.min}% and ${POSITION_LIMITS.contributionGrowth.max}%.`;
+    }
+
+    if (outOfRange(position.expenseRatio, POSITION_LIMITS.expenseRatio)) {
+        errors.expenseRatio = `Enter an expense ratio between ${POSITION_LIMITS.expenseRatio.min}% and ${POSITION_LIMITS.expenseRatio.max}%.`;
+    }
+    const loadMessage = `Enter a load between ${POSITION_LIMITS.load.min}% and ${POSITION_LIMITS.load.max}%.`;
+    if (outOfRange(position.frontLoad, POSITION_LIMITS.load)) errors.frontLoad = loadMessage;
+    if (outOfRange(position.backLoad, POSITION_LIMITS.load)) errors.backLoad = loadMessage;
+
+    const { min, max } = POSITION_LIMITS.year;
+    if (outOfRange(position.startYear, POSITION_LIMITS.year) || (position.startYear !== undefined && !Number.isInteger(position.startYear))) {
+        errors.startYear = `Enter a whole year from ${min} to ${max}.`;
+    }
+    if (outOfRange(position.endYear, POSITION_LIMITS.year) || (position.endYear !== undefined && !Number.isInteger(position.endYear))) {
+        errors.endYear = `Enter a whole year from ${min} to ${max}.`;
+    } else if (position.endYear !== undefined && position.endYear < (position.startYear ?? 1)) {
+        errors.endYear = 'Must not be before the first contribution year.';
+    }
+
+    return errors;
+};
@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import {
+    calculateInvestmentProjection,
+    calculateMonteCarloProjection,
+    clampNumPaths,
+    clampSeed,
+    createBootstrapDraw,
+    createRandom,
+    getLognormalDistributionParams,
+    getLumpSumDistributionParams,
+    ProjectionInput,
+    STEPS_PER_YEAR,
+    YearlyData,
+} from '@/lib/projection';
+
+// The notebook's example: 200,000 a year at the end of each year, 1,000,000 deposited at the end
+// of year 1, 25 years at 6% expected return and 15% volatility (arithmetic-normal simple returns).
+const NOTEBOOK_INPUT: ProjectionInput = {
+    investment: 200_000,
+    age: 35,
+    projectionYears: 25,
+    expectedReturn: 0.06,
+    volatility: 0.15,
+    percentiles: [10],
+    lumpSums: [{ label: 'Lump sum', amount: 1_000_000, year: 1 }],
+    retirementAge: 100,
+    annualWithdrawal: 0,
+    withdrawalGrowth: 0,
+    contributionGrowth: 0,
+    inflationRate: 0,
+    inflationVolatility: 0,
+    returnModel: 'normal',
+    timeStep: 'annual',
+    contributionTiming: 'end',
+};
+
+// `portfolio_projection` in `notebooks/calculation.ipynb`
+const NOTEBOOK_ANALYTICAL = { p10: 6_638_572, median: 12_987_570, p90: 25_763_262 };
+
+const last = (data: YearlyData[]) => data[data.length - 1];
+const band10 = (d: YearlyData) => d.bands.find((b) => b.p === 10)!;
+const relative = (actual: number, expected: number) => Math.abs(actual / expected - 1);
+
+describe('calculateInvestmentProjection', () => {
+    it('matches the notebook reference quantiles', () => {
+        const final = last(calculateInvestmentProjection(NOTEBOOK_INPUT).yearlyData);
+        expect(final.medianCase).toBeCloseTo(NOTEBOOK_ANALYTICAL.median, -1);
+        expect(band10(final).low).toBeCloseTo(NOTEBOOK_ANALYTICAL.p10, -1);
+        expect(band10(final).high).toBeCloseTo(NOTEBOOK_ANALYTICAL.p90, -1);
+    });
+
+    it('collapses the bands onto the deterministic future value when volatility is zero', () => {
+        const { expectedReturn: mu, projectionYears: n } = NOTEBOOK_INPUT;
+        const yearlyData = calculateInvestmentProjection({ ...NOTEBOOK_INPUT, volatility: 0, percentiles: [5, 25] }).yearlyData;
+        yearlyData.forEach((d) => {
+            // The lognormal fit of a zero variance is exact up to rounding in the log
+            for (const value of [d.meanCase, d.medianCase, ...d.bands.flatMap((b) => [b.low, b.high])]) {
+                expect(relative(value, d.deterministicCase)).toBeLessThan(1e-6);
+            }
+        });
+        const futureValue = 200_000 * ((1 + mu) ** n - 1) / mu + 1_000_000 * (1 + mu) ** (n - 1);
+        expect(last(yearlyData).deterministicCase).toBeCloseTo(futureValue, 2);
+    });
+
+    it('reports the deterministic value as the mean', () => {
+        for (const returnModel of ['normal', 'lognormal'] as const) {
+            const params = { ...NOTEBOOK_INPUT, returnModel, contributionGrowth: 0.03 };
+            for (const d of calculateInvestmentProjection(params).yearlyData) {
+                expect(relative(d.meanCase, d.deterministicCase)).toBeLessThan(1e-12);
+            }
+        }
+    });
+
+    it('reduces to a single component without contributions or lump sums', () => {
+        const { expectedReturn: mu, volatility: sigma, projectionYears: n } = NOTEBOOK_INPUT;
+
+        const lump = last(calculateInvestmentProjection({ ...NOTEBOOK_INPUT, investment: 0 }).yearlyData);
+        const lumpFit = getLumpSumDistributionParams(1_000_000, n - 1, mu, sigma);
+        expect(lump.medianCase).toBeCloseTo(Math.exp(lumpFit.logMu), 2);
+        expect(band10(lump).low).toBeLessThan(lump.medianCase);
+
+        const annuity = last(calculateInvestmentProjection({ ...NOTEBOOK_INPUT, lumpSums: [] }).yearlyData);
+        const annuityFit = getLognormalDistributionParams(200_000, n, mu, sigma);
+        expect(annuity.medianCase).toBeCloseTo(Math.exp(annuityFit.logMu), 2);
+        expect(annuity.meanCase).toBeCloseTo(200_000 * ((1 + mu) ** n - 1) / mu, 2);
+    });
+
+    it('widens the bands monotonically with volatility', () => {
+        let previous = { low: Infinity, high: 0 };
+        for (const volatility of [0.05, 0.1, 0.15, 0.2, 0.25]) {
+            const b = band10(last(calculateInvestmentProjection({ ...NOTEBOOK_INPUT, volatility }).yearlyData));
+            expect(b.low).toBeLessThan(previous.low);
+            expect(b.high).toBeGreaterThan(previous.high);
+            previous = b;
+        }
+    });
+
+    it('charges the expense ratio, front load and reports the gap to a zero-fee plan', () => {
+        const fees = { expenseRatio: 0.01, frontLoad: 0.015, backLoad: 0 };
+        const params = { ...NOTEBOOK_INPUT, investment: 0, volatility: 0, fees };
+        const output = calculateInvestmentProjection(params);
+        const final = last(output.yearlyData);
+        const n = NOTEBOOK_INPUT.projectionYears - 1;
+        const expected = 1_000_000 * (1 - fees.frontLoad) * ((1 + NOTEBOOK_INPUT.expectedReturn) * (1 - fees.expenseRatio)) ** n;
+        const withoutFees = 1_000_000 * (1 + NOTEBOOK_INPUT.expectedReturn) ** n;
+
+        expect(final.deterministicCase).toBeCloseTo(expected, 2);
+        expect(final.feeGap).toBeCloseTo(withoutFees - expected, 2);
+        expect(final.totalFees).toBeGreaterThan(1_000_000 * fees.frontLoad);
+        expect(output.summary.totalFees).toBeCloseTo(final.totalFees, 6);
+        expect(output.summary.baseCAGR).toBeCloseTo((1 + NOTEBOOK_INPUT.expectedReturn) * (1 - fees.expenseRatio) - 1, 12);
+    });
+
+    it('splits contributions over monthly and quarterly steps', () => {
+        const { expectedReturn: mu, projectionYears: n } = NOTEBOOK_INPUT;
+        for (const timeStep of ['quarterly', 'monthly'] as const) {
+            const s = STEPS_PER_YEAR[timeStep];
+            const g = (1 + mu) ** (1 / s);
+            const params = { ...NOTEBOOK_INPUT, lumpSums: [], volatility: 0, timeStep };
+            const final = last(calculateInvestmentProjection(params).yearlyData);
+            expect(final.deterministicCase).toBeCloseTo((200_000 / s) * (g ** (s * n) - 1) / (g - 1), 2);
+            expect(final.medianCase).toBeCloseTo(final.deterministicCase, 4);
+        }
+    });
+
+    it('grows beginning-of-step contributions for one extra step', () => {
+        const end = { ...NOTEBOOK_INPUT, lumpSums: [], volatility: 0 };
+        const begin = { ...end, contributionTiming: 'begin' as const };
+        const endFinal = last(calculateInvestmentProjection(end).yearlyData);
+        const beginFinal = last(calculateInvestmentProjection(begin).yearlyData);
+        expect(beginFinal.deterministicCase).toBeCloseTo(endFinal.deterministicCase * (1 + NOTEBOOK_INPUT.expectedReturn), 2);
+
+        // With volatility the timing still moves the whole fan up
+        const volatileEnd = last(calculateInvestmentProjection({ ...end, volatility: 0.15 }).yearlyData);
+        const volatileBegin = last(calculateInvestmentProjection({ ...begin, volatility: 0.15 }).yearlyData);
+        expect(band10(volatileBegin).low).toBeGreaterThan(band10(volatileEnd).low);
+        expect(volatileBegin.medianCase).toBeGreaterThan(volatileEnd.medianCase);
+    });
+});
+
+describe('calculateMonteCarloProjection', () => {
+    const simulation = { numPaths: 20_000, seed: 42 };
+
+    it('agrees with the analytical engine on the median and mean', () => {
+        const cases: Partial<ProjectionInput>[] = [
+            { returnModel: 'normal' },
+            { returnModel: 'lognormal' },
+            { contributionGrowth: 0.03 },
+            { timeStep: 'monthly', contributionTiming: 'begin' },
+            { fees: { expenseRatio: 0.015, frontLoad: 0.01, backLoad: 0 } },
+        ];
+        for (const overrides of cases) {
+            const params = { ...NOTEBOOK_INPUT, ...overrides };
+            const analytical = last(calculateInvestmentProjection(params).yearlyData);
+            const monteCarlo = last(calculateMonteCarloProjection({ ...params, ...simulation }).yearlyData);
+            expect(relative(monteCarlo.meanCase, analytical.meanCase)).toBeLessThan(0.02);
+            // The one-shock lognormal fit understates the median slightly (see the README)
+            expect(relative(monteCarlo.medianCase, analytical.medianCase)).toBeLessThan(0.06);
+            expect(monteCarlo.deterministicCase).toBeCloseTo(analytical.deterministicCase, 4);
+        }
+    });
+
+    it('clamps the simulation settings to whole numbers within their limits', () => {
+        expect([0, 99.4, 1234.6, 1e9, NaN].map(clampNumPaths)).toEqual([100, 100, 1235, 50_000, 100]);
+        expect([-5, 7.5, 2 ** 40, NaN].map(clampSeed)).toEqual([0, 8, 2_147_483_647, 0]);
+
+        const params = { ...NOTEBOOK_INPUT, seed: 3 };
+        expect(calculateMonteCarloProjection({ ...params, numPaths: 1 }).yearlyData)
+            .toEqual(calculateMonteCarloProjection({ ...params, numPaths: 100 }).yearlyData);
+    });
+
+    it('reproduces the deterministic path when volatility is zero', () => {
+        const params = { ...NOTEBOOK_INPUT, volatility: 0, timeStep: 'quarterly' as const };
+        const analytical = calculateInvestmentProjection(params).yearlyData;
+        calculateMonteCarloProjection({ ...params, numPaths: 100, seed: 1 }).yearlyData.forEach((d, i) => {
+            expect(d.medianCase).toBeCloseTo(analytical[i].deterministicCase, 4);
+            expect(band10(d).low).toBeCloseTo(analytical[i].deterministicCase, 4);
+            expect(band10(d).high).toBeCloseTo(analytical[i].deterministicCase, 4);
+        });
+    });
+});
+
+describe('createBootstrapDraw', () => {
+    // Period i returns i%, so every draw reveals the period it came from
+    const periodReturns = Array.from({ length: 10 }, (_, i) => i / 100);
+    const periodOf = (gross: number) => Math.round((gross - 1) * 100);
+    const draws = (blockLength: number, seed: number, count = 40) => {
+        const draw = createBootstrapDraw({ periodReturns, periodsPerYear: 1, blockLength }, 2, 1, createRandom(seed));
+        return [0, 1].map((path) => Array.from({ length: count }, () => periodOf(draw(path, 0))));
+    };
+
+    it('reads consecutive periods within a block and wraps around the end of the series', () => {
+        for (const periods of draws(4, 7)) {
+            let jumps = 0;
+            periods.forEach((period, k) => {
+                if (k % 4 !== 0) expect(period).toBe((periods[k - 1] + 1) % periodReturns.length);
+                else if (k > 0 && period !== (periods[k - 1] + 1) % periodReturns.length) jumps++;
+            });
+            expect(jumps).toBeGreaterThan(0);
+        }
+
+        // A block longer than the series keeps cycling through it
+        const [cycling] = draws(25, 3, 25);
+        cycling.forEach((period, k) => expect(period).toBe((cycling[0] + k) % periodReturns.length));
+    });
+
+    it('spreads a year of annual data over shorter steps', () => {
+        const draw = createBootstrapDraw({ periodReturns, periodsPerYear: 1, blockLength: 1 }, 1, 12, createRandom(5));
+        for (let year = 0; year < 3; year++) {
+            const steps = Array.from({ length: 12 }, (_, step) => draw(0, step));
+            steps.forEach((gross) => expect(gross).toBe(steps[0]));
+            expect(steps[0] ** 12 - 1).toBeCloseTo(periodOf(steps[0] ** 12) / 100, 12);
+        }
+    });
+
+    it('compounds consecutive periods of finer data into one step', () => {
+        const draw = createBootstrapDraw({ periodReturns, periodsPerYear: 12, blockLength: 12 }, 1, 4, createRandom(9));
+        const quarter = (start: number) => [0, 1, 2].reduce((acc, k) => acc * (1 + periodReturns[(start + k) % 10]), 1);
+        const first = draw(0, 0);
+        const start = periodReturns.findIndex((_, s) => Math.abs(quarter(s) - first) < 1e-12);
+        expect(start).toBeGreaterThanOrEqual(0);
+        expect(draw(0, 1)).toBeCloseTo(quarter(start + 3), 12);
+    });
+
+    it('reproduces the same draws and fan from the same seed', () => {
+        expect(draws(3, 11)).toEqual(draws(3, 11));
+        expect(draws(3, 11)).not.toEqual(draws(3, 12));
+
+        const params = { ...NOTEBOOK_INPUT, numPaths: 500, seed: 21, bootstrap: { periodReturns, periodsPerYear: 1, blockLength: 3 } };
+        expect(calculateMonteCarloProjection(params).yearlyData).toEqual(calculateMonteCarloProjection(params).yearlyData);
+        expect(last(calculateMonteCarloProjection({ ...params, seed: 22 }).yearlyData).medianCase)
+            .not.toBe(last(calculateMonteCarloProjection(params).yearlyData).medianCase);
+    });
+
+    it('falls back to the return model when there is no history to resample', () => {
+        const params = { ...NOTEBOOK_INPUT, numPaths: 500, seed: 21 };
+        const withoutHistory = { ...params, bootstrap: { periodReturns: [], periodsPerYear: 1, blockLength: 1 } };
+        expect(calculateMonteCarloProjection(withoutHistory).yearlyData).toEqual(calculateMonteCarloProjection(params).yearlyData);
+    });
+});
@@ -0,0 +1,1219 @@
+import jStat from 'jstat';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * Per-year return model: 'normal' simple returns or 'lognormal' gross returns.
+ */
+export type ReturnModel = 'normal' | 'lognormal';
+
+/**
+ * Length of one step of the cash-flow schedule. The annual investment is split evenly over the
+ * steps of a year; lump sums, withdrawals and the reported rows stay yearly.
+ */
+export type TimeStep = 'annual' | 'quarterly' | 'monthly';
+
+/**
+ * Whether each step's contribution is invested at its beginning (and earns that step's return) or at its end.
+ */
+export type ContributionTiming = 'begin' | 'end';
+
+/**
+ * A one-off deposit made at the end of `year` (1 = end of the first projection year).
+ */
+export interface LumpSum {
+    label: string;
+    amount: number;
+    year: number;
+}
+
+/**
+ * A recurring contribution with its own schedule, e.g. one per portfolio position.
+ */
+export interface ContributionStream {
+    label: string;
+    amount: number;    // Contribution in `startYear`
+    startYear: number; // First projection year with a contribution
+    endYear: number;   // Last projection year with a contribution (e.g. the end of an SSF holding period)
+    growth: number;    // Annual increase of the contribution (e.g., 0.03 to follow salary growth)
+    frontLoad?: number; // Sales charge on each contribution of the stream; defaults to `fees.frontLoad`
+}
+
+/**
+ * Expected return and volatility of the portfolio during one projection year.
+ */
+export interface YearReturnParams {
+    expectedReturn: number; // e.g., 0.06 for 6%
+    volatility: number;     // e.g., 0.10 for 10%
+}
+
+/**
+ * Fund charges applied by the engines. Loads are taken from the cash flow they apply to;
+ * the expense ratio is taken from the portfolio value a step at a time.
+ */
+export interface ProjectionFees {
+    expenseRatio: number; // Annual expense ratio (TER), e.g. 0.01 for 1%
+    frontLoad: number;    // Sales charge on contributions and lump sums, e.g. 0.015 for 1.5%
+    backLoad: number;     // Redemption fee on withdrawals, e.g. 0.01 for 1%
+}
+
+/**
+ * Which series is drawn as the central line of the fan:
+ * - 'mean':          expected portfolio value
+ * - 'median':        50th percentile, the value the portfolio is as likely to beat as to miss
+ * - 'deterministic': value when every year earns exactly the expected return
+ */
+export type CentralLine = 'mean' | 'median' | 'deterministic';
+
+/**
+ * Input parameters for the investment projection calculation.
+ */
+export interface ProjectionInput {
+    investment: number;       // Annual mutual fund investment amount in THB
+    age: number;              // Current age of the user
+    projectionYears: number;  // Number of years to project into the future
+    expectedReturn: number;   // Annual expected return (e.g., 0.06 for 6%)
+    volatility: number;       // Annual volatility (e.g., 0.10 for 10%)
+    percentiles: number[];    // Lower percentile of each fan band (e.g., [5, 10, 25] for 5–95, 10–90, 25–75)
+    lumpSums: LumpSum[];      // One-off deposits, each at the end of its own year
+    retirementAge: number;    // Age from which contributions stop and withdrawals start
+    annualWithdrawal: number; // Withdrawal taken at the end of the first retirement year in THB
+    withdrawalGrowth: number; // Annual increase of the withdrawal (e.g., 0.03 to index to inflation)
+    contributionGrowth: number;  // Annual increase of the investment (e.g., 0.03 to follow salary growth)
+    contributions?: ContributionStream[]; // Per-stream schedules; without them `investment` grows by `contributionGrowth` from year 1
+    inflationRate: number;       // Expected annual inflation (e.g., 0.02 for 2%)
+    inflationVolatility: number; // Standard deviation of annual inflation; 0 for a deterministic deflator
+    returnModel: ReturnModel;    // How `expectedReturn` and `volatility` describe the per-year gross return
+    timeStep: TimeStep;          // Step of the contribution schedule; results are still reported per year
+    contributionTiming: ContributionTiming; // Whether each step's contribution earns that step's return
+    fees?: ProjectionFees;       // Fund charges; none when not set
+    returnPath?: YearReturnParams[]; // Parameters of each year from year 1 (e.g. a glide path), the last one continuing;
+                                     // replaces `expectedReturn` and `volatility` when set
+}
+
+/**
+ * Additional inputs for the Monte Carlo engine. Returns are drawn from the same
+ * `returnModel` as the semi-analytical engine uses for its moments.
+ */
+export interface MonteCarloInput extends ProjectionInput {
+    numPaths: number;         // Number of simulated paths
+    seed: number;             // Seed for the pseudo-random generator (same seed => same fan)
+    bootstrap?: BootstrapInput; // When set, returns are resampled from history instead of drawn from `returnModel`
+}
+
+/**
+ * Historical portfolio returns for the bootstrap mode of the Monte Carlo engine.
+ */
+export interface BootstrapInput {
+    periodReturns: number[]; // Portfolio return of each historical period in time order (e.g., 0.012 for 1.2%)
+    periodsPerYear: number;  // 1 for annual data, 12 for monthly
+    blockLength: number;     // Consecutive periods drawn together; 1 for an IID bootstrap
+}
+
+/**
+ * One shaded band of the fan, between the `p`-th and (100 - `p`)-th percentiles.
+ */
+export interface FanBand {
+    p: number;    // Lower percentile, e.g. 10 for the 10–90 band
+    low: number;
+    high: number;
+}
+
+/**
+ * The calculated data structure for a single year of the projection.
+ */
+export interface YearlyData {
+    year: number;
+    age: number;
+    investment: number;         // Annual investment for this specific year
+    investmentBreakdown: number[]; // Investment of each contribution stream in this year
+    lumpSum: number;            // Total of the lump sums deposited in this year
+    lumpSumBreakdown: number[]; // Deposit of each scheduled lump sum in this year, in `lumpSums` order
+    totalAnnualInvestment: number; // Accumulated annual investments up to this year
+    totalLumpSumInvestment: number; // Accumulated lump sums up to this year
+    totalInvestment: number;    // Accumulated total (annual + lump sum) up to this year (kept for backward compatibility)
+    withdrawal: number;         // Withdrawal taken at the end of this year (retirement phase only)
+    totalWithdrawal: number;    // Accumulated withdrawals up to this year
+    meanCase: number;           // Expected portfolio value
+    medianCase: number;         // Median portfolio value (shared-Z quantile, or sample median)
+    deterministicCase: number;  // Value when every year earns exactly the expected return
+    worstCase: number;          // Lower edge of the widest band
+    bestCase: number;           // Upper edge of the widest band
+    bands: FanBand[];           // Fan bands, widest first
+    investmentReturn: number;   // Expected total return, including capital gains
+    depletionProbability?: number; // Monte Carlo only: share of paths that ran out of money by this year
+    deflator: number;           // Expected price level relative to today, (1 + inflation)^year
+    realMeanCase: number;       // Mean in today's money (includes inflation uncertainty)
+    realMedianCase: number;     // Median in today's money (includes inflation uncertainty)
+    realDeterministicCase: number; // Deterministic value divided by the expected deflator
+    realWorstCase: number;      // Worst case in today's money (includes inflation uncertainty)
+    realBestCase: number;       // Best case in today's money (includes inflation uncertainty)
+    realBands: FanBand[];       // Fan bands in today's money
+    streamValues: number[];     // Part of `deterministicCase` grown from each contribution stream
+    lumpSumValue: number;       // Part of `deterministicCase` grown from the lump sums
+    fees: number;               // Loads and expense ratio paid during this year on the deterministic path
+    totalFees: number;          // Accumulated fees up to this year
+    feeGap: number;             // How much more the deterministic path would be worth without any fees
+}
+
+/**
+ * Summary statistics for the entire projection period.
+ */
+export interface ProjectionSummary {
+    committedAnnualInvestment: number;
+    baseCAGR: number;                    // Expected return net of the expense ratio
+    finalValues: Record<CentralLine, number>;     // Final year's mean, median and deterministic value
+    realFinalValues: Record<CentralLine, number>; // The same in today's money
+    realCAGR: number;                    // Expected return net of expected inflation
+    depletionProbability?: number;       // Monte Carlo only: probability of running out by the horizon
+    worstCaseDepletionAge?: number | null; // Monte Carlo only: age at which the worst-case percentile path hits zero
+    totalFees: number;                   // Fees paid over the horizon on the deterministic path
+    feeGap: number;                      // Final deterministic value lost to fees, versus the same plan without fees
+}
+
+/**
+ * The combined output of the calculation, including yearly data and summary metrics.
+ */
+export interface ProjectionOutput {
+    yearlyData: YearlyData[];
+    summary: ProjectionSummary;
+    // Probability that the portfolio is worth at least `amount` at the end of `year`
+    // (in today's money when `real` is set), read off the same distribution as the fan.
+    probabilityOfReaching: (year: number, amount: number, real: boolean) => number;
+}
+
+/**
+ * Parameters of a lognormal variable exp(logMu + logSigma * Z).
+ */
+export type LognormalComponent = { logMu: number; logSigma: number };
+
+// --- FAN PERCENTILES --- //
+
+export const DEFAULT_FAN_PERCENTILES = [5, 10, 25];
+export const MAX_FAN_BANDS = 5;
+
+/**
+ * Cleans a user-entered percentile list: keeps values in [1, 49] (rounded to 0.5), removes
+ * duplicates, sorts ascending so the widest band comes first and keeps at most `MAX_FAN_BANDS`.
+ * Falls back to the defaults when nothing valid is left.
+ * @param {number[]} values - Lower percentiles as entered.
+ * @returns {number[]} The cleaned list.
+ */
+export const normalizePercentiles = (values: number[]): number[] => {
+    const cleaned = values
+        .filter((v) => Number.isFinite(v) && v >= 1 && v <= 49)
+        .map((v) => Math.round(v * 2) / 2);
+    const unique = Array.from(new Set(cleaned)).sort((a, b) => a - b).slice(0, MAX_FAN_BANDS);
+    return unique.length > 0 ? unique : DEFAULT_FAN_PERCENTILES;
+};
+
+/**
+ * Probabilities to evaluate for a set of bands: every lower tail, the median and every upper tail.
+ */
+const bandProbabilities = (percentiles: number[]) => [
+    ...percentiles.map((p) => p / 100),
+    0.5,
+    ...percentiles.map((p) => 1 - p / 100),
+];
+
+/**
+ * Builds the fan bands from a quantile function; lower edges are floored at zero.
+ */
+export const toBands = (percentiles: number[], quantile: (prob: number) => number): FanBand[] => {
+    return percentiles.map((p) => ({ p, low: Math.max(0, quantile(p / 100)), high: quantile(1 - p / 100) }));
+};
+
+// --- CASH FLOW SCHEDULE --- //
+
+export const STEPS_PER_YEAR: Record<TimeStep, number> = { annual: 1, quarterly: 4, monthly: 12 };
+
+/**
+ * Number of projection years in which the annual investment is made. Year `t` is lived at
+ * age `age + t - 1`, so contributions run while that age is below the retirement age.
+ */
+export const contributionYears = (params: ProjectionInput) => Math.max(0, params.retirementAge - params.age);
+
+/**
+ * The contribution streams of a projection: `params.contributions`, or a single stream of
+ * `investment` growing by `contributionGrowth` from year 1.
+ */
+export const contributionStreams = (params: ProjectionInput): ContributionStream[] => {
+    return params.contributions ?? [{
+        label: 'Annual investment',
+        amount: params.investment,
+        startYear: 1,
+        endYear: params.projectionYears,
+        growth: params.contributionGrowth,
+    }];
+};
+
+/**
+ * Investment of one stream during `year`: zero outside its start and end years and from
+ * retirement on, otherwise growing by the stream's `growth` a year from its start.
+ */
+export const streamInvestmentForYear = (params: ProjectionInput, stream: ContributionStream, year: number) => {
+    if (year > contributionYears(params) || year < stream.startYear || year > stream.endYear) return 0;
+    return stream.amount * Math.pow(1 + stream.growth, year - stream.startYear);
+};
+
+/**
+ * Annual investment made during `year`, summed over the contribution streams.
+ * It is paid in `STEPS_PER_YEAR[timeStep]` equal instalments.
+ */
+export const investmentForYear = (params: ProjectionInput, year: number) => {
+    return contributionStreams(params).reduce((acc, stream) => acc + streamInvestmentForYear(params, stream, year), 0);
+};
+
+/**
+ * Expected return and volatility that apply during `year`.
+ */
+export const returnParamsForYear = (params: ProjectionInput, year: number): YearReturnParams => {
+    const path = params.returnPath;
+    if (!path || path.length === 0) return { expectedReturn: params.expectedReturn, volatility: params.volatility };
+    return path[Math.min(year, path.length) - 1];
+};
+
+/**
+ * Expected gross return per year over the horizon: the fixed one, or the geometric average of a `returnPath`.
+ */
+export const averageGrossReturn = (params: ProjectionInput): number => {
+    const gross = (year: number) => {
+        const { expectedReturn, volatility } = returnParamsForYear(params, year);
+        return grossReturnMoments(expectedReturn, volatility, params.returnModel).m;
+    };
+    if (!params.returnPath || params.returnPath.length === 0 || params.projectionYears <= 0) return gross(1);
+    let logSum = 0;
+    for (let year = 1; year <= params.projectionYears; year++) logSum += Math.log(gross(year));
+    return Math.exp(logSum / params.projectionYears);
+};
+
+// --- FEES --- //
+
+const NO_FEES: ProjectionFees = { expenseRatio: 0, frontLoad: 0, backLoad: 0 };
+
+export const projectionFees = (params: ProjectionInput): ProjectionFees => params.fees ?? NO_FEES;
+
+/**
+ * Share of each step's value that remains after the expense ratio: (1 - TER)^(1/steps per year),
+ * so a year of steps charges exactly the annual ratio.
+ */
+export const stepFeeFactor = (params: ProjectionInput) => {
+    return Math.pow(1 - projectionFees(params).expenseRatio, 1 / STEPS_PER_YEAR[params.timeStep]);
+};
+
+/**
+ * Sales charge on the contributions of a stream.
+ */
+export const streamFrontLoad = (params: ProjectionInput, stream: ContributionStream) => {
+    return stream.frontLoad ?? projectionFees(params).frontLoad;
+};
+
+/**
+ * Annual investment of `year` that reaches the portfolio after each stream's sales charge.
+ */
+export const netInvestmentForYear = (params: ProjectionInput, year: number) => {
+    return contributionStreams(params).reduce(
+        (acc, stream) => acc + streamInvestmentForYear(params, stream, year) * (1 - streamFrontLoad(params, stream)),
+        0,
+    );
+};
+
+/**
+ * The same plan with every fee removed, the baseline of `feeGap`.
+ */
+export const withoutFees = (params: ProjectionInput): ProjectionInput => ({
+    ...params,
+    fees: undefined,
+    contributions: params.contributions?.map((stream) => ({ ...stream, frontLoad: undefined })),
+});
+
+/**
+ * Lognormal parameters of the price level after `year` years. Each year's gross inflation
+ * (1 + I) is lognormal with mean 1 + inflationRate and standard deviation inflationVolatility,
+ * so E[deflator] = (1 + inflationRate)^year.
+ */
+export const deflatorParams = (params: ProjectionInput, year: number) => {
+    const gross = 1 + params.inflationRate;
+    const yearlyLogVar = Math.log(1 + params.inflationVolatility ** 2 / gross ** 2);
+    const yearlyLogMu = Math.log(gross) - 0.5 * yearlyLogVar;
+    return {
+        logMu: year * yearlyLogMu,
+        logSigma: Math.sqrt(year * yearlyLogVar),
+        expected: Math.pow(gross, year),
+    };
+};
+
+/**
+ * Withdrawal taken at the end of `year`: zero before retirement, then growing by `withdrawalGrowth` a year.
+ */
+export const withdrawalForYear = (params: ProjectionInput, year: number) => {
+    const retirementYear = contributionYears(params) + 1;
+    if (year < retirementYear || params.annualWithdrawal <= 0) return 0;
+    return params.annualWithdrawal * Math.pow(1 + params.withdrawalGrowth, year - retirementYear);
+};
+
+/**
+ * Whether the inputs include withdrawals within the horizon. The moment formulas assume
+ * non-negative cash flows, so such projections have to be simulated.
+ */
+export const requiresSimulation = (params: ProjectionInput) => {
+    return params.annualWithdrawal > 0 && contributionYears(params) < params.projectionYears;
+};
+
+/**
+ * The path that earns the expected per-step gross return `stepM` every step, split into the part grown
+ * from each contribution stream and the part grown from the lump sums. Instalments follow the `timeStep`
+ * schedule, lump sums and withdrawals fall at the end of the year, and a withdrawal is taken from every
+ * part in proportion to its value; the path is floored at zero once it cannot cover one.
+ * Fees are charged as in the engines: front loads on every deposit, the expense ratio after each step's
+ * growth and the back load on top of each withdrawal, and are reported per year.
+ * @param {ProjectionInput} params - The projection inputs.
+ * @param {(year: number) => number} stepMForYear - Expected gross return of one step of a year, before the expense ratio.
+ * @returns {{ total: number, streamValues: number[], lumpSumValue: number, fees: number }[]} Year-end values, one entry per year.
+ */
+export const deterministicPath = (params: ProjectionInput, stepMForYear: (year: number) => number) => {
+    const stepsPerYear = STEPS_PER_YEAR[params.timeStep];
+    const streams = contributionStreams(params);
+    const fees = projectionFees(params);
+    const feeFactor = stepFeeFactor(params);
+    const streamValues = streams.map(() => 0);
+    let lumpSumValue = 0;
+    const path: { total: number; streamValues: number[]; lumpSumValue: number; fees: number }[] = [];
+
+    for (let year = 1; year <= params.projectionYears; year++) {
+        const stepM = stepMForYear(year);
+        // One step of growth followed by the expense ratio; returns the charge.
+        const grow = (value: number) => value * stepM * (1 - feeFactor);
+        let feesThisYear = 0;
+        streams.forEach((stream, j) => {
+            const investment = streamInvestmentForYear(params, stream, year);
+            const frontLoad = streamFrontLoad(params, stream);
+            const instalment = investment * (1 - frontLoad) / stepsPerYear;
+            feesThisYear += investment * frontLoad;
+            for (let k = 0; k < stepsPerYear; k++) {
+                if (params.contributionTiming === 'begin') {
+                    feesThisYear += grow(streamValues[j] + instalment);
+                    streamValues[j] = (streamValues[j] + instalment) * stepM * feeFactor;
+                } else {
+                    feesThisYear += grow(streamValues[j]);
+                    streamValues[j] = streamValues[j] * stepM * feeFactor + instalment;
+                }
+            }
+        });
+        for (let k = 0; k < stepsPerYear; k++) {
+            feesThisYear += grow(lumpSumValue);
+            lumpSumValue *= stepM * feeFactor;
+        }
+        const lumpSum = params.lumpSums.reduce((acc, l) => acc + (l.year === year ? l.amount : 0), 0);
+        lumpSumValue += lumpSum * (1 - fees.frontLoad);
+        feesThisYear += lumpSum * fees.frontLoad;
+
+        let total = lumpSumValue + streamValues.reduce((acc, v) => acc + v, 0);
+        const withdrawal = withdrawalForYear(params, year);
+        if (withdrawal > 0) {
+            // Redeeming enough to pay out `withdrawal` after the back load
+            const redemption = withdrawal / (1 - fees.backLoad);
+            const scale = total > redemption ? (total - redemption) / total : 0;
+            feesThisYear += Math.min(total, redemption) * fees.backLoad;
+            streamValues.forEach((v, j) => { streamValues[j] = v * scale; });
+            lumpSumValue *= scale;
+            total = Math.max(0, total - redemption);
+        }
+        path.push({ total, streamValues: streamValues.slice(), lumpSumValue, fees: feesThisYear });
+    }
+    return path;
+};
+
+/**
+ * Fees paid on the deterministic path and its shortfall against the same plan without fees, per year.
+ * @param {ProjectionInput} params - The projection inputs.
+ * @param {ReturnType<typeof deterministicPath>} path - The deterministic path of `params`.
+ * @param {(year: number) => number} stepMForYear - Expected gross return of one step of a year, before the expense ratio.
+ * @returns {{ fees: number, totalFees: number, feeGap: number }[]} One entry per year.
+ */
+const feeDrag = (params: ProjectionInput, path: ReturnType<typeof deterministicPath>, stepMForYear: (year: number) => number) => {
+    const zeroFeePath = params.fees ? deterministicPath(withoutFees(params), stepMForYear) : path;
+    let totalFees = 0;
+    return path.map((p, i) => {
+        totalFees += p.fees;
+        return { fees: p.fees, totalFees, feeGap: zeroFeePath[i].total - p.total };
+    });
+};
+
+// --- DISTRIBUTION HELPERS --- //
+/**
+ * P(Σ exp(μ_k + σ_k Z) >= amount) for comonotonic lognormal components. The sum is increasing
+ * in Z, so the probability is 1 - Φ(z*) where z* solves the sum = amount (found by bisection).
+ */
+const exceedanceProbability = (components: LognormalComponent[], amount: number) => {
+    const total = (z: number) => components.reduce((acc, c) => acc + Math.exp(c.logMu + z * c.logSigma), 0);
+    if (amount <= 0) return 1;
+    if (total(-8) >= amount) return 1;
+    if (total(8) < amount) return 0;
+    let lo = -8;
+    let hi = 8;
+    for (let i = 0; i < 60; i++) {
+        const mid = 0.5 * (lo + hi);
+        if (total(mid) < amount) lo = mid; else hi = mid;
+    }
+    return 1 - jStat.normal.cdf(0.5 * (lo + hi), 0, 1);
+};
+
+/**
+ * E[Σ exp(μ_k + σ_k Z)] = Σ exp(μ_k + σ_k² / 2).
+ */
+const lognormalMean = (components: LognormalComponent[]) => {
+    return components.reduce((acc, c) => acc + Math.exp(c.logMu + 0.5 * c.logSigma ** 2), 0);
+};
+
+/**
+ * Final year's central values in nominal terms and in today's money, for the summary.
+ */
+const finalValuesOf = (results: YearlyData[]) => {
+    const last = results[results.length - 1];
+    return {
+        finalValues: { mean: last.meanCase, median: last.medianCase, deterministic: last.deterministicCase },
+        realFinalValues: { mean: last.realMeanCase, median: last.realMedianCase, deterministic: last.realDeterministicCase },
+    };
+};
+
+/**
+ * Fees over the horizon and the final-year gap to the same plan without fees.
+ */
+const feeTotalsOf = (results: YearlyData[]) => {
+    const last = results[results.length - 1];
+    return { totalFees: last.totalFees, feeGap: last.feeGap };
+};
+
+/**
+ * Share of an ascending-sorted sample that is at least `amount`.
+ */
+const sampleExceedance = (sorted: Float64Array, amount: number) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (sorted[mid] < amount) lo = mid + 1; else hi = mid;
+    }
+    return sorted.length === 0 ? 0 : (sorted.length - lo) / sorted.length;
+};
+
+// --- MOMENT MATCHING --- //
+/**
+ * First two moments of the per-year gross return G, m = E[G] and A = E[G^2]:
+ * - 'normal':    G = 1 + mu + sigma * Z,              m = 1 + mu,   A = m^2 + sigma^2
+ * - 'lognormal': ln G ~ N(mu - sigma^2 / 2, sigma^2),  m = exp(mu),  A = exp(2 mu + sigma^2)
+ *
+ * @param {number} mu - Per-year expected return.
+ * @param {number} sigma - Per-year volatility.
+ * @param {ReturnModel} returnModel - The return model.
+ * @returns {{m: number, A: number}} The moments.
+ */
+export const grossReturnMoments = (mu: number, sigma: number, returnModel: ReturnModel) => {
+    if (returnModel === 'lognormal') {
+        return { m: Math.exp(mu), A: Math.exp(2 * mu + sigma ** 2) };
+    }
+    const m = 1 + mu;
+    return { m, A: m ** 2 + sigma ** 2 };
+};
+
+/**
+ * Gross-return moments of one step when a year is split into `stepsPerYear` independent steps.
+ * Taking the per-year moments to the power 1 / stepsPerYear makes the steps compound back to
+ * exactly the per-year m and A of `grossReturnMoments`.
+ *
+ * @param {number} mu - Per-year expected return.
+ * @param {number} sigma - Per-year volatility.
+ * @param {ReturnModel} returnModel - Per-year return model.
+ * @param {number} stepsPerYear - Steps per year (see `STEPS_PER_YEAR`).
+ * @returns {{m: number, A: number}} The moments of one step.
+ */
+export const stepReturnMoments = (mu: number, sigma: number, returnModel: ReturnModel, stepsPerYear: number) => {
+    const { m, A } = grossReturnMoments(mu, sigma, returnModel);
+    return { m: Math.pow(m, 1 / stepsPerYear), A: Math.pow(A, 1 / stepsPerYear) };
+};
+
+/**
+ * Lognormal with mean E and second moment `secondMoment`.
+ */
+const fitLognormal = (E: number, secondMoment: number): LognormalComponent => {
+    let V = secondMoment - E ** 2;
+    if (V < 0) V = 0; // Clamp due to potential floating point inaccuracies
+    const sigma_w2 = Math.log(1 + V / E ** 2);
+    return { logMu: Math.log(E) - 0.5 * sigma_w2, logSigma: Math.sqrt(sigma_w2) };
+};
+
+/**
+ * First and second moment of the contribution annuity, E[W] and E[W^2].
+ */
+type AnnuityMoments = { E: number; S: number };
+
+/**
+ * Advances the annuity moments by one step with gross-return moments m and A. A contribution c made at
+ * the beginning of the step earns its return, W_k = (W_{k-1} + c) * G_k:
+ *   E_k = m (E_{k-1} + c),  E[W_k^2] = A (E[W_{k-1}^2] + 2 c E_{k-1} + c^2)
+ * and one made at the end does not, W_k = W_{k-1} * G_k + c:
+ *   E_k = m E_{k-1} + c,    E[W_k^2] = A E[W_{k-1}^2] + 2 c m E_{k-1} + c^2
+ */
+const advanceAnnuityMoments = ({ E, S }: AnnuityMoments, c: number, m: number, A: number, timing: ContributionTiming): AnnuityMoments => {
+    if (timing === 'begin') return { E: m * (E + c), S: A * (S + 2 * c * E + c ** 2) };
+    return { E: m * E + c, S: A * S + 2 * c * m * E + c ** 2 };
+};
+
+/**
+ * Lognormal approximation of an ordinary annuity of N end-of-year contributions, matched on
+ * its first two moments. After the last contribution the annuity keeps compounding for
+ * `growthYears` more years; those returns are independent of W_N, so E and E[W^2] scale by m^k and A^k.
+ * A growing annuity (c_k = C * (1 + g)^(k-1)) has no tidy closed form, so its moments follow the
+ * recursion W_k = W_{k-1} * G_k + c_k:  E_k = m * E_{k-1} + c_k,  E[W_k^2] = A * E[W_{k-1}^2] + 2 c_k m E_{k-1} + c_k^2.
+ *
+ * @param {number} C - First contribution.
+ * @param {number} N - Number of contributions.
+ * @param {number} mu - Per-year expected return.
+ * @param {number} sigma - Per-year volatility.
+ * @param {number} growthYears - Years of growth after the last contribution.
+ * @param {number} contributionGrowth - Per-year growth of the contribution.
+ * @param {ReturnModel} returnModel - Per-year return model (see `grossReturnMoments`).
+ * @returns {LognormalComponent} The matched lognormal.
+ */
+export const getLognormalDistributionParams = (
+    C: number,
+    N: number,
+    mu: number,
+    sigma: number,
+    growthYears: number = 0,
+    contributionGrowth: number = 0,
+    returnModel: ReturnModel = 'normal',
+): LognormalComponent => {
+    if (N === 0 || C === 0) return { logMu: Math.log(C || 1), logSigma: 0 };
+
+    const { m, A } = grossReturnMoments(mu, sigma, returnModel);
+
+    let E: number;
+    let S_W: number;
+    if (contributionGrowth === 0) {
+        // Mean of W (Future Value of an Ordinary Annuity)
+        E = m === 1 ? C * N : C * (Math.pow(m, N) - 1) / (m - 1);
+
+        // Second moment of W
+        const S = (Math.pow(A, N) - 1) / (A - 1);
+        let T = 0;
+        for (let p = 1; p < N; p++) {
+            T += Math.pow(m, p) * ((Math.pow(A, N - p) - 1) / (A - 1));
+        }
+        S_W = C ** 2 * (S + 2 * T);
+    } else {
+        E = 0;
+        S_W = 0;
+        for (let k = 1; k <= N; k++) {
+            const c = C * Math.pow(1 + contributionGrowth, k - 1);
+            S_W = A * S_W + 2 * c * m * E + c ** 2;
+            E = m * E + c;
+        }
+    }
+    // Lognormal approximation after the remaining years of growth
+    return fitLognormal(E * Math.pow(m, growthYears), S_W * Math.pow(A, growthYears));
+};
+
+/**
+ * Lump sum future value approximated as lognormal using first and second moments.
+ * Future Value after N years with per-year gross moments m = E[G] and A = E[G^2]:
+ * E[S_N] = L * m^N,  E[S_N^2] = L^2 * A^N
+ *
+ * @param {number} L - Deposit.
+ * @param {number} N - Years of growth after the deposit.
+ * @param {number} mu - Per-year expected return.
+ * @param {number} sigma - Per-year volatility.
+ * @param {ReturnModel} returnModel - Per-year return model (see `grossReturnMoments`).
+ * @returns {LognormalComponent} The matched lognormal.
+ */
+export const getLumpSumDistributionParams = (L: number, N: number, mu: number, sigma: number, returnModel: ReturnModel = 'normal'): LognormalComponent => {
+    if (L === 0) return { logMu: Math.log(1), logSigma: 0 };
+    if (N <= 0) return { logMu: Math.log(L), logSigma: 0 };
+    const { m, A } = grossReturnMoments(mu, sigma, returnModel);
+    return fitLognormal(L * Math.pow(m, N), L ** 2 * Math.pow(A, N));
+};
+
+/**
+ * Quantiles of a sum of comonotonic lognormal components: every component is evaluated at the
+ * same standard normal quantile z = Φ⁻¹(p) (shared Z) and the results are added.
+ *
+ * @param {LognormalComponent[]} components - The components of the portfolio value.
+ * @param {number[]} percentiles - Probabilities in (0, 1).
+ * @returns {Record<number, number>} The value at each requested probability.
+ */
+export const totalQuantilesForYear = (components: LognormalComponent[], percentiles: number[]): Record<number, number> => {
+    const out: Record<number, number> = {};
+    for (const p of percentiles) {
+        const z = jStat.normal.inv(p, 0, 1);
+        out[p] = components.reduce((acc, c) => acc + Math.exp(c.logMu + z * c.logSigma), 0);
+    }
+    return out;
+};
+
+// --- CORE CALCULATION LOGIC --- //
+/**
+ * Calculates investment projections based on user inputs.
+ * This function is pure and has no side effects.
+ * Contributions stop at the retirement age; withdrawals are not modelled here (see `requiresSimulation`).
+ * Gross-return moments follow `params.returnModel`, the same model the Monte Carlo engine draws from.
+ * The annuity is stepped through the `timeStep` schedule with `stepReturnMoments`, so every instalment
+ * and its timing is reflected in the moments; rows are the values at the end of each year.
+ * The expense ratio scales each step's gross return by a constant and front loads shrink the deposits,
+ * so both enter the moments exactly. Returns are independent between steps but need not be identically
+ * distributed, so a `returnPath` only changes which moments each year compounds with.
+ *
+ * @param {ProjectionInput} params - The input parameters for the calculation.
+ * @returns {ProjectionOutput} An object containing both the detailed yearly data and summary metrics.
+ */
+export const calculateInvestmentProjection = (params: ProjectionInput): ProjectionOutput => {
+    const {
+        age,
+        projectionYears,
+        lumpSums,
+        contributionTiming,
+    } = params;
+    const percentiles = normalizePercentiles(params.percentiles);
+    const bandsP = bandProbabilities(percentiles);
+    const streams = contributionStreams(params);
+    const stepsPerYear = STEPS_PER_YEAR[params.timeStep];
+
+    const results: YearlyData[] = [];
+    const nominalComponentsByYear: LognormalComponent[][] = [];
+    const realComponentsByYear: LognormalComponent[][] = [];
+    let cumulativeAnnualInvestment = 0;
+    let cumulativeLumpSumInvestment = 0;
+    const fees = projectionFees(params);
+    const stepFor = (year: number) => {
+        const { expectedReturn, volatility } = returnParamsForYear(params, year);
+        return stepReturnMoments(expectedReturn, volatility, params.returnModel, stepsPerYear);
+    };
+    const deterministic = deterministicPath(params, (year) => stepFor(year).m);
+    const drag = feeDrag(params, deterministic, (year) => stepFor(year).m);
+    // The expense ratio scales every step's gross return by a constant, so it scales the moments exactly.
+    const feeFactor = stepFeeFactor(params);
+    let annuity: AnnuityMoments = { E: 0, S: 0 };
+    // Mean and second moment of each lump sum since its deposit, grown a year at a time so every
+    // year can have its own return parameters.
+    const lumpSumMoments: AnnuityMoments[] = lumpSums.map(() => ({ E: 0, S: 0 }));
+
+    for (let year = 1; year <= projectionYears; year++) {
+        // Each lump sum is deposited at the end of its own year
+        const lumpSumBreakdown = lumpSums.map((l) => (l.year === year ? l.amount : 0));
+        const lumpSumThisYear = lumpSumBreakdown.reduce((acc, v) => acc + v, 0);
+        const investmentBreakdown = streams.map((stream) => streamInvestmentForYear(params, stream, year));
+        const investmentThisYear = investmentBreakdown.reduce((acc, v) => acc + v, 0);
+        const { total: deterministicValue, streamValues, lumpSumValue } = deterministic[year - 1];
+
+        // Step through the year's instalments. All streams share the portfolio return, so together
+        // they form one annuity however their schedules differ. Moments compound step by step, so
+        // the year's own parameters apply to this year's growth only.
+        const step = stepFor(year);
+        const netStep = { m: step.m * feeFactor, A: step.A * feeFactor ** 2 };
+        const instalment = netInvestmentForYear(params, year) / stepsPerYear;
+        for (let k = 0; k < stepsPerYear; k++) {
+            annuity = advanceAnnuityMoments(annuity, instalment, netStep.m, netStep.A, contributionTiming);
+        }
+
+        // Track cumulative contributions separately
+        cumulativeAnnualInvestment += investmentThisYear;
+        cumulativeLumpSumInvestment += lumpSumThisYear;
+
+        const totalContributed = cumulativeAnnualInvestment + cumulativeLumpSumInvestment;
+
+        // Bands via shared-Z evaluation combining the annuity and every lump sum deposited so far
+        // 1) Params: the instalments form one annuity and each lump sum is moment-matched on its own,
+        // compounding for (year - deposit year) years
+        const components: LognormalComponent[] = [];
+        if (annuity.E > 0) {
+            components.push(fitLognormal(annuity.E, annuity.S));
+        }
+        const { expectedReturn, volatility } = returnParamsForYear(params, year);
+        const gross = grossReturnMoments(expectedReturn, volatility, params.returnModel);
+        lumpSums.forEach((l, i) => {
+            if (l.amount === 0 || l.year > year) return;
+            if (l.year === year) {
+                const netAmount = l.amount * (1 - fees.frontLoad);
+                lumpSumMoments[i] = { E: netAmount, S: netAmount ** 2 };
+            } else {
+                lumpSumMoments[i] = {
+                    E: lumpSumMoments[i].E * gross.m * (1 - fees.expenseRatio),
+                    S: lumpSumMoments[i].S * gross.A * (1 - fees.expenseRatio) ** 2,
+                };
+            }
+            if (lumpSumMoments[i].E > 0) components.push(fitLognormal(lumpSumMoments[i].E, lumpSumMoments[i].S));
+        });
+
+        // 2) Quantiles at every band edge and the median
+        const q = totalQuantilesForYear(components, bandsP);
+
+        // Today's money: dividing by an independent lognormal deflator shifts each component's log-mean
+        // and adds the deflator's log-variance; components stay on the shared Z.
+        const deflator = deflatorParams(params, year);
+        const realComponents = components.map((c) => ({
+            logMu: c.logMu - deflator.logMu,
+            logSigma: Math.sqrt(c.logSigma ** 2 + deflator.logSigma ** 2),
+        }));
+        const realQ = totalQuantilesForYear(realComponents, bandsP);
+        nominalComponentsByYear.push(components);
+        realComponentsByYear.push(realComponents);
+
+        // 3) Derive bands/median. The fit preserves each component's mean, so the mean is the sum of
+        // the component means; without withdrawals it equals the deterministic path.
+        const bands = toBands(percentiles, (prob) => q[prob]);
+        const realBands = toBands(percentiles, (prob) => realQ[prob]);
+        const mean = lognormalMean(components);
+
+        results.push({
+            year: year,
+            age: age + year - 1,
+            investment: investmentThisYear,
+            investmentBreakdown,
+            lumpSum: lumpSumThisYear,
+            lumpSumBreakdown,
+            totalAnnualInvestment: cumulativeAnnualInvestment,
+            totalLumpSumInvestment: cumulativeLumpSumInvestment,
+            totalInvestment: totalContributed,
+            withdrawal: 0,
+            totalWithdrawal: 0,
+            meanCase: mean,
+            medianCase: q[0.5],
+            deterministicCase: deterministicValue,
+            worstCase: bands[0].low,
+            bestCase: bands[0].high,
+            bands,
+            investmentReturn: mean - totalContributed,
+            deflator: deflator.expected,
+            realMeanCase: lognormalMean(realComponents),
+            realMedianCase: realQ[0.5],
+            realDeterministicCase: deterministicValue / deflator.expected,
+            realWorstCase: realBands[0].low,
+            realBestCase: realBands[0].high,
+            realBands,
+            streamValues,
+            lumpSumValue,
+            ...drag[year - 1],
+        });
+    }
+
+    const probabilityOfReaching = (year: number, amount: number, real: boolean) => {
+        const components = (real ? realComponentsByYear : nominalComponentsByYear)[year - 1];
+        return components ? exceedanceProbability(components, amount) : 0;
+    };
+
+    // --- SUMMARY CALCULATION --- //
+    if (results.length === 0) {
+        const emptySummary: ProjectionSummary = {
+            committedAnnualInvestment: params.investment,
+            baseCAGR: 0,
+            finalValues: { mean: 0, median: 0, deterministic: 0 },
+            realFinalValues: { mean: 0, median: 0, deterministic: 0 },
+            realCAGR: 0,
+            totalFees: 0,
+            feeGap: 0,
+        };
+        return { yearlyData: [], summary: emptySummary, probabilityOfReaching };
+    }
+
+    const netM = averageGrossReturn(params) * (1 - fees.expenseRatio);
+    const summary: ProjectionSummary = {
+        committedAnnualInvestment: params.investment,
+        baseCAGR: netM - 1,
+        ...finalValuesOf(results),
+        ...feeTotalsOf(results),
+        realCAGR: netM / (1 + params.inflationRate) - 1,
+    };
+
+    return { yearlyData: results, summary, probabilityOfReaching };
+};
+
+// --- MONTE CARLO ENGINE --- //
+
+/**
+ * Bounds of the simulation settings, shared by the inputs, share links and the engines.
+ */
+export const SIMULATION_PATHS = { min: 100, max: 50_000 };
+export const SIMULATION_SEED = { min: 0, max: 2_147_483_647 };
+
+const clampInteger = (value: number, { min, max }: { min: number; max: number }) =>
+    (Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : min);
+
+/**
+ * Whole number of paths within `SIMULATION_PATHS`; the minimum when the value is not a number.
+ */
+export const clampNumPaths = (value: number) => clampInteger(value, SIMULATION_PATHS);
+
+/**
+ * Whole seed within `SIMULATION_SEED`; the minimum when the value is not a number.
+ */
+export const clampSeed = (value: number) => clampInteger(value, SIMULATION_SEED);
+/**
+ * Small seeded PRNG (mulberry32) so that a given seed always reproduces the same paths.
+ * @param {number} seed - 32-bit integer seed.
+ * @returns {() => number} A generator of uniforms in [0, 1).
+ */
+export const createRandom = (seed: number) => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Standard normal sampler (Box-Muller) driven by a seeded uniform generator.
+ * @param {() => number} random - Uniform generator in [0, 1).
+ * @returns {() => number} A generator of N(0, 1) draws.
+ */
+export const createNormal = (random: () => number) => {
+    let spare: number | null = null;
+    return () => {
+        if (spare !== null) {
+            const z = spare;
+            spare = null;
+            return z;
+        }
+        const u1 = 1 - random(); // (0, 1] so the log is finite
+        const u2 = random();
+        const r = Math.sqrt(-2 * Math.log(u1));
+        spare = r * Math.sin(2 * Math.PI * u2);
+        return r * Math.cos(2 * Math.PI * u2);
+    };
+};
+
+/**
+ * Per-path gross return of one step resampled from historical periods; each step compounds
+ * `periodsPerYear / stepsPerYear` periods. A path reads consecutive periods from a random start (wrapping
+ * around the end of the series) until `blockLength` have been used, then jumps to a new random start, so
+ * with `blockLength` 1 every period is drawn independently and longer blocks keep crash clustering and momentum.
+ * When the data is coarser than the step (annual data, monthly steps) a year of data is drawn at the first
+ * step of each year and spread evenly over its steps.
+ * @param {BootstrapInput} bootstrap - The historical series and block settings.
+ * @param {number} numPaths - Number of simulated paths (each keeps its own block position).
+ * @param {number} stepsPerYear - Steps per simulated year.
+ * @param {() => number} random - Uniform generator in [0, 1).
+ * @returns {(path: number, step: number) => number} Draws the gross return of a path for a step (0-based within the year).
+ */
+export const createBootstrapDraw = (bootstrap: BootstrapInput, numPaths: number, stepsPerYear: number, random: () => number) => {
+    const { periodReturns, periodsPerYear, blockLength } = bootstrap;
+    const n = periodReturns.length;
+    const position = new Int32Array(numPaths);
+    const remaining = new Int32Array(numPaths); // Periods left in the current block; 0 starts a new one
+    const compound = (path: number, periods: number) => {
+        let gross = 1;
+        for (let k = 0; k < periods; k++) {
+            if (remaining[path] === 0) {
+                position[path] = Math.floor(random() * n);
+                remaining[path] = blockLength;
+            }
+            gross *= 1 + periodReturns[position[path]];
+            position[path] = (position[path] + 1) % n;
+            remaining[path]--;
+        }
+        return gross;
+    };
+    if (periodsPerYear % stepsPerYear === 0) {
+        const periodsPerStep = periodsPerYear / stepsPerYear;
+        return (path: number) => compound(path, periodsPerStep);
+    }
+    const yearStepGross = new Float64Array(numPaths); // 0 until the path's first year is drawn
+    return (path: number, step: number) => {
+        if (step === 0 || yearStepGross[path] === 0) {
+            yearStepGross[path] = Math.pow(compound(path, periodsPerYear), 1 / stepsPerYear);
+        }
+        return yearStepGross[path];
+    };
+};
+
+/**
+ * Expected per-year gross return of the bootstrap, (mean of 1 + r)^periodsPerYear. Exact for the IID
+ * bootstrap and a close approximation for blocks, which draw every period equally often.
+ */
+const bootstrapMeanGross = (bootstrap: BootstrapInput) => {
+    const meanGross = bootstrap.periodReturns.reduce((acc, r) => acc + 1 + r, 0) / bootstrap.periodReturns.length;
+    return Math.pow(meanGross, bootstrap.periodsPerYear);
+};
+
+/**
+ * Percentile of an ascending-sorted sample with linear interpolation (numpy's default).
+ */
+export const sampleQuantile = (sorted: Float64Array, p: number) => {
+    if (sorted.length === 0) return 0;
+    const h = (sorted.length - 1) * p;
+    const lo = Math.floor(h);
+    const hi = Math.min(sorted.length - 1, lo + 1);
+    return sorted[lo] + (h - lo) * (sorted[hi] - sorted[lo]);
+};
+
+/**
+ * Simulates portfolio paths and reads the fan off the empirical distribution of each year.
+ * Timing follows the semi-analytical engine: each year is split into `timeStep` steps, each step applies
+ * its gross return and invests an equal instalment of the year's `investment` at its beginning or end,
+ * and lump sums due are added at the end of the year. With annual steps and end-of-period timing the
+ * first contribution lands at the end of year 1 before any return is drawn.
+ * From the retirement age contributions stop and the year's withdrawal is taken at the end of the year
+ * instead; a path that cannot cover a withdrawal is depleted (floored at zero) and counts towards
+ * `depletionProbability`.
+ *
+ * Return models (as in `mc_portfolio_projection` in the notebook), for annual steps:
+ * - 'normal':    gross = 1 + mu + sigma * Z
+ * - 'lognormal': gross = exp(mu - sigma^2 / 2 + sigma * Z), so E[gross] = exp(mu)
+ * Shorter steps draw from the same model with the per-step moments of `stepReturnMoments`, and with a
+ * `returnPath` each year draws from its own parameters.
+ * With `bootstrap` set, gross returns are resampled from history instead (see `createBootstrapDraw`).
+ * Every drawn gross return is reduced by the step's share of the expense ratio, instalments and lump sums
+ * arrive net of their front load, and a withdrawal redeems enough to also pay the back load.
+ *
+ * `meanCase` is the sample mean of the paths, `medianCase` the sample median and `deterministicCase`
+ * the single path that earns the expected gross return every year.
+ *
+ * @param {MonteCarloInput} params - The projection inputs plus simulation settings.
+ * @returns {ProjectionOutput} Yearly data in the same shape as `calculateInvestmentProjection`.
+ */
+export const calculateMonteCarloProjection = (params: MonteCarloInput): ProjectionOutput => {
+    const {
+        investment,
+        age,
+        projectionYears,
+        lumpSums,
+        returnModel,
+        contributionTiming,
+    } = params;
+    const percentiles = normalizePercentiles(params.percentiles);
+    const numPaths = clampNumPaths(params.numPaths);
+    const stepsPerYear = STEPS_PER_YEAR[params.timeStep];
+
+    const random = createRandom(params.seed);
+    const normal = createNormal(random);
+    const bootstrap = params.bootstrap && params.bootstrap.periodReturns.length > 0 ? params.bootstrap : undefined;
+    const m = bootstrap ? bootstrapMeanGross(bootstrap) : averageGrossReturn(params);
+    const streams = contributionStreams(params);
+    const fees = projectionFees(params);
+    const feeFactor = stepFeeFactor(params);
+
+    // A `returnPath` changes the parametric draws every year; the bootstrap resamples the history as loaded.
+    const stepMForYear = (year: number) => {
+        if (bootstrap) return Math.pow(m, 1 / stepsPerYear);
+        const { expectedReturn, volatility } = returnParamsForYear(params, year);
+        return stepReturnMoments(expectedReturn, volatility, returnModel, stepsPerYear).m;
+    };
+    const deterministic = deterministicPath(params, stepMForYear);
+    const drag = feeDrag(params, deterministic, stepMForYear);
+    const bootstrapDraw = bootstrap ? createBootstrapDraw(bootstrap, numPaths, stepsPerYear, random) : null;
+    const drawGrossForYear = (year: number): ((path: number, step: number) => number) => {
+        if (bootstrapDraw) return bootstrapDraw;
+        const { expectedReturn, volatility } = returnParamsForYear(params, year);
+        if (returnModel === 'lognormal') {
+            return () => Math.exp((expectedReturn - 0.5 * volatility ** 2) / stepsPerYear + (volatility / Math.sqrt(stepsPerYear)) * normal());
+        }
+        const step = stepReturnMoments(expectedReturn, volatility, returnModel, stepsPerYear);
+        const stepSigma = Math.sqrt(Math.max(0, step.A - step.m ** 2));
+        return () => step.m + stepSigma * normal();
+    };
+
+    const pLo = percentiles[0] / 100;
+
+    const values = new Float64Array(numPaths);
+    const sorted = new Float64Array(numPaths);
+    const priceLevels = new Float64Array(numPaths).fill(1);
+    const realValues = new Float64Array(numPaths);
+    const depleted = new Uint8Array(numPaths);
+    const results: YearlyData[] = [];
+    const sortedByYear: Float64Array[] = [];
+    const realSortedByYear: Float64Array[] = [];
+    let cumulativeAnnualInvestment = 0;
+    let cumulativeLumpSumInvestment = 0;
+    let cumulativeWithdrawal = 0;
+    let depletedCount = 0;
+
+    for (let year = 1; year <= projectionYears; year++) {
+        const lumpSumBreakdown = lumpSums.map((l) => (l.year === year ? l.amount : 0));
+        const lumpSumThisYear = lumpSumBreakdown.reduce((acc, v) => acc + v, 0);
+        const investmentBreakdown = streams.map((stream) => streamInvestmentForYear(params, stream, year));
+        const investmentThisYear = investmentBreakdown.reduce((acc, v) => acc + v, 0);
+        const withdrawal = withdrawalForYear(params, year);
+        const instalment = netInvestmentForYear(params, year) / stepsPerYear;
+        // Deposits arrive net of the front load; withdrawals redeem enough to cover the back load.
+        const yearEndFlow = lumpSumThisYear * (1 - fees.frontLoad) - withdrawal / (1 - fees.backLoad);
+        const drawGross = drawGrossForYear(year);
+        // Nothing is invested before the first end-of-period instalment, so that step's return is not drawn.
+        const firstDrawnStep = year === 1 && contributionTiming === 'end' ? 1 : 0;
+
+        let sum = 0;
+        for (let i = 0; i < numPaths; i++) {
+            let value = values[i];
+            if (firstDrawnStep === 1) value = instalment;
+            for (let k = firstDrawnStep; k < stepsPerYear; k++) {
+                value = contributionTiming === 'begin'
+                    ? (value + instalment) * drawGross(i, k) * feeFactor
+                    : value * drawGross(i, k) * feeFactor + instalment;
+            }
+            values[i] = value + yearEndFlow;
+            if (withdrawal > 0 && values[i] <= 0) {
+                values[i] = 0;
+                if (!depleted[i]) {
+                    depleted[i] = 1;
+                    depletedCount++;
+                }
+            }
+            sum += values[i];
+        }
+        sorted.set(values);
+        sorted.sort();
+        const { total: deterministicValue, streamValues, lumpSumValue } = deterministic[year - 1];
+
+        // Inflation paths are only drawn when uncertain, so deterministic runs keep their random stream.
+        const deflator = deflatorParams(params, 1);
+        let realSum = 0;
+        for (let i = 0; i < numPaths; i++) {
+            priceLevels[i] *= deflator.logSigma > 0 ? Math.exp(deflator.logMu + deflator.logSigma * normal()) : deflator.expected;
+            realValues[i] = values[i] / priceLevels[i];
+            realSum += realValues[i];
+        }
+        realValues.sort();
+        sortedByYear.push(sorted.slice());
+        realSortedByYear.push(realValues.slice());
+
+        cumulativeAnnualInvestment += investmentThisYear;
+        cumulativeLumpSumInvestment += lumpSumThisYear;
+        cumulativeWithdrawal += withdrawal;
+        const totalContributed = cumulativeAnnualInvestment + cumulativeLumpSumInvestment;
+        const mean = sum / numPaths;
+        const bands = toBands(percentiles, (prob) => sampleQuantile(sorted, prob));
+        const realBands = toBands(percentiles, (prob) => sampleQuantile(realValues, prob));
+        const expectedDeflator = deflatorParams(params, year).expected;
+
+        results.push({
+            year: year,
+            age: age + year - 1,
+            investment: investmentThisYear,
+            investmentBreakdown,
+            lumpSum: lumpSumThisYear,
+            lumpSumBreakdown,
+            totalAnnualInvestment: cumulativeAnnualInvestment,
+            totalLumpSumInvestment: cumulativeLumpSumInvestment,
+            totalInvestment: totalContributed,
+            withdrawal,
+            totalWithdrawal: cumulativeWithdrawal,
+            meanCase: mean,
+            medianCase: sampleQuantile(sorted, 0.5),
+            deterministicCase: deterministicValue,
+            worstCase: bands[0].low,
+            bestCase: bands[0].high,
+            bands,
+            investmentReturn: mean + cumulativeWithdrawal - totalContributed,
+            depletionProbability: depletedCount / numPaths,
+            deflator: expectedDeflator,
+            realMeanCase: realSum / numPaths,
+            realMedianCase: sampleQuantile(realValues, 0.5),
+            realDeterministicCase: deterministicValue / expectedDeflator,
+            realWorstCase: realBands[0].low,
+            realBestCase: realBands[0].high,
+            realBands,
+            streamValues,
+            lumpSumValue,
+            ...drag[year - 1],
+        });
+    }
+
+    const probabilityOfReaching = (year: number, amount: number, real: boolean) => {
+        const sample = (real ? realSortedByYear : sortedByYear)[year - 1];
+        return sample ? sampleExceedance(sample, amount) : 0;
+    };
+
+    if (results.length === 0) {
+        return {
+            yearlyData: [],
+            summary: {
+                committedAnnualInvestment: investment,
+                baseCAGR: 0,
+                finalValues: { mean: 0, median: 0, deterministic: 0 },
+                realFinalValues: { mean: 0, median: 0, deterministic: 0 },
+                realCAGR: 0,
+                totalFees: 0,
+                feeGap: 0,
+            },
+            probabilityOfReaching,
+        };
+    }
+
+    // Depleted paths stay at zero, so the worst-case quantile hits zero once at least pLo of paths are depleted.
+    const worstCaseDepletion = results.find((d) => (d.depletionProbability ?? 0) >= pLo);
+
+    const netM = m * (1 - fees.expenseRatio);
+    const summary: ProjectionSummary = {
+        committedAnnualInvestment: investment,
+        baseCAGR: netM - 1,
+        ...finalValuesOf(results),
+        ...feeTotalsOf(results),
+        realCAGR: netM / (1 + params.inflationRate) - 1,
+        depletionProbability: depletedCount / numPaths,
+        worstCaseDepletionAge: worstCaseDepletion ? worstCaseDepletion.age : null,
+    };
+
+    return { yearlyData: results, summary, probabilityOfReaching };
+};
+
+// --- DISPLAY HELPERS --- //
+/**
+ * Re-expresses yearly data in today's money. Cash flows are divided by their year's expected
+ * deflator and re-accumulated; fan values use the real quantiles computed by the engines.
+ * @param {YearlyData[]} data - Nominal yearly data.
+ * @returns {YearlyData[]} The same rows with every THB amount in today's money.
+ */
+export const toRealTerms = (data: YearlyData[]): YearlyData[] => {
+    let totalAnnualInvestment = 0;
+    let totalLumpSumInvestment = 0;
+    let totalWithdrawal = 0;
+    let totalFees = 0;
+    return data.map((d) => {
+        const investment = d.investment / d.deflator;
+        const lumpSum = d.lumpSum / d.deflator;
+        const withdrawal = d.withdrawal / d.deflator;
+        totalAnnualInvestment += investment;
+        totalLumpSumInvestment += lumpSum;
+        totalWithdrawal += withdrawal;
+        totalFees += d.fees / d.deflator;
+        return {
+            ...d,
+            investment,
+            investmentBreakdown: d.investmentBreakdown.map((v) => v / d.deflator),
+            lumpSum,
+            lumpSumBreakdown: d.lumpSumBreakdown.map((v) => v / d.deflator),
+            totalAnnualInvestment,
+            totalLumpSumInvestment,
+            totalInvestment: totalAnnualInvestment + totalLumpSumInvestment,
+            withdrawal,
+            totalWithdrawal,
+            meanCase: d.realMeanCase,
+            medianCase: d.realMedianCase,
+            deterministicCase: d.realDeterministicCase,
+            worstCase: d.realWorstCase,
+            bestCase: d.realBestCase,
+            bands: d.realBands,
+            streamValues: d.streamValues.map((v) => v / d.deflator),
+            lumpSumValue: d.lumpSumValue / d.deflator,
+            fees: d.fees / d.deflator,
+            totalFees,
+            feeGap: d.feeGap / d.deflator,
+            investmentReturn: d.realMeanCase + totalWithdrawal - totalAnnualInvestment - totalLumpSumInvestment,
+        };
+    });
+};
+
+/**
+ * The value of the chosen central line in a row.
+ * @param {YearlyData} d - A row of yearly data.
+ * @param {CentralLine} line - The central line.
+ * @returns {number} The value.
+ */
+export const centralValue = (d: YearlyData, line: CentralLine): number => {
+    switch (line) {
+        case 'mean': return d.meanCase;
+        case 'deterministic': return d.deterministicCase;
+        default: return d.medianCase;
+    }
+};
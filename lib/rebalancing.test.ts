@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { calculateInvestmentProjection, ProjectionInput, YearlyData } from '@/lib/projection';
+import { MultiAssetInput, RebalancingPolicy, simulateMultiAsset } from '@/lib/rebalancing';
+import { DEFAULT_CORRELATIONS } from '@/lib/risk';
+
+// A single 1,000,000 lump sum at the end of year 1, invested 60/40 in equities and bonds
+const PROJECTION: ProjectionInput = {
+    investment: 0,
+    age: 35,
+    projectionYears: 10,
+    expectedReturn: 0,
+    volatility: 0,
+    percentiles: [10],
+    lumpSums: [{ label: 'Lump sum', amount: 1_000_000, year: 1 }],
+    retirementAge: 100,
+    annualWithdrawal: 0,
+    withdrawalGrowth: 0,
+    contributionGrowth: 0,
+    inflationRate: 0,
+    inflationVolatility: 0,
+    returnModel: 'normal',
+    timeStep: 'annual',
+    contributionTiming: 'end',
+};
+
+const TARGETS = [0.6, 0.4];
+
+const input = (policy: RebalancingPolicy, volatility = 0, band = 0.05): MultiAssetInput => ({
+    projection: PROJECTION,
+    assets: [
+        { label: 'SET50', assetClass: 'Local Equity', expectedReturn: 0.08, volatility, expenseRatio: 0 },
+        { label: 'GOV', assetClass: 'Fixed Income', expectedReturn: 0.03, volatility, expenseRatio: 0 },
+    ],
+    correlations: DEFAULT_CORRELATIONS,
+    targetWeights: [TARGETS],
+    policy,
+    band,
+    numPaths: 200,
+    seed: 42,
+});
+
+const last = (data: YearlyData[]) => data[data.length - 1];
+const deterministicFinal = (expectedReturn: number, amount = 1_000_000) =>
+    last(calculateInvestmentProjection({ ...PROJECTION, expectedReturn, lumpSums: [{ label: 'Lump sum', amount, year: 1 }] }).yearlyData).deterministicCase;
+
+// Equity weight after `years` of growth from the target mix without trading
+const driftedEquity = (years: number) => {
+    const equity = TARGETS[0] * 1.08 ** years;
+    return equity / (equity + TARGETS[1] * 1.03 ** years);
+};
+
+describe('simulateMultiAsset', () => {
+    it('follows the deterministic path of each policy when volatility is zero', () => {
+        const never = simulateMultiAsset(input('never'));
+        const buyAndHold = deterministicFinal(0.08, 600_000) + deterministicFinal(0.03, 400_000);
+        expect(never.median).toBeCloseTo(buyAndHold, 4);
+        expect(never.mean).toBeCloseTo(buyAndHold, 4);
+
+        // Rebalanced every year, the portfolio earns the blended return
+        const annual = simulateMultiAsset(input('annual'));
+        expect(annual.median).toBeCloseTo(deterministicFinal(0.6 * 0.08 + 0.4 * 0.03), 4);
+        expect(annual.bands[0].low).toBeCloseTo(annual.bands[0].high, 4);
+    });
+
+    it('trades back to the target mix at the start of every year', () => {
+        const annual = simulateMultiAsset(input('annual'));
+        expect(annual.rebalancesPerPath).toBe(PROJECTION.projectionYears - 1);
+        expect(annual.finalMix['Local Equity']).toBeCloseTo(driftedEquity(1), 12);
+
+        // A changing target is followed year by year
+        const glide = simulateMultiAsset({ ...input('annual'), targetWeights: [TARGETS, TARGETS, [0.3, 0.7]] });
+        const equity = 0.3 * 1.08;
+        expect(glide.finalMix['Local Equity']).toBeCloseTo(equity / (equity + 0.7 * 1.03), 12);
+
+        // With volatility the mix still ends within a year's drift of the target
+        const volatile = simulateMultiAsset(input('annual', 0.1));
+        expect(Math.abs(volatile.finalMix['Local Equity'] - TARGETS[0])).toBeLessThan(0.03);
+        expect(simulateMultiAsset(input('never', 0.1)).finalMix['Local Equity']).toBeGreaterThan(driftedEquity(5));
+    });
+
+    it('trades only when a weight drifts outside the band', () => {
+        // After nine years of growth the equity weight is still within 10 points of its target
+        expect(driftedEquity(9) - TARGETS[0]).toBeLessThan(0.1);
+        const wide = simulateMultiAsset(input('threshold', 0, 0.1));
+        expect(wide.rebalancesPerPath).toBe(0);
+        expect(wide.median).toBeCloseTo(simulateMultiAsset(input('never')).median, 6);
+
+        // A 2-point band is crossed every second year: after years 3, 5, 7 and 9
+        expect(driftedEquity(1) - TARGETS[0]).toBeLessThan(0.02);
+        expect(driftedEquity(2) - TARGETS[0]).toBeGreaterThan(0.02);
+        expect(simulateMultiAsset(input('threshold', 0, 0.02)).rebalancesPerPath).toBe(4);
+
+        // A band that cannot be crossed leaves every path untouched
+        const volatileNever = simulateMultiAsset(input('never', 0.15));
+        const volatileWide = simulateMultiAsset(input('threshold', 0.15, 1));
+        expect(volatileWide.rebalancesPerPath).toBe(0);
+        expect(volatileWide.bands).toEqual(volatileNever.bands);
+    });
+});
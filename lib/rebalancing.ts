@@ -0,0 +1,194 @@
+import {
+    clampNumPaths,
+    contributionStreams,
+    createNormal,
+    createRandom,
+    FanBand,
+    normalizePercentiles,
+    projectionFees,
+    ProjectionInput,
+    sampleQuantile,
+    STEPS_PER_YEAR,
+    stepReturnMoments,
+    streamFrontLoad,
+    streamInvestmentForYear,
+    toBands,
+    withdrawalForYear,
+} from '@/lib/projection';
+import { ASSET_CLASSES, AssetClass, correlationBetween, CorrelationMatrix } from '@/lib/risk';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * When holdings are traded back to their target weights:
+ * - 'never':     buy and hold; contributions still follow each position's own schedule
+ * - 'annual':    at the start of every calendar year
+ * - 'threshold': after any step in which a weight has drifted further than the band from its target
+ */
+export type RebalancingPolicy = 'never' | 'annual' | 'threshold';
+
+/**
+ * One position as simulated on its own.
+ */
+export interface SimulatedAsset {
+    label: string;
+    assetClass: string;
+    expectedReturn: number; // e.g., 0.08 for 8%
+    volatility: number;     // e.g., 0.16 for 16%
+    expenseRatio: number;   // e.g., 0.015 for 1.5%
+}
+
+export interface MultiAssetInput {
+    projection: ProjectionInput; // Cash flows, horizon, steps and return model; `contributions` are in `assets` order
+    assets: SimulatedAsset[];
+    correlations: CorrelationMatrix;
+    targetWeights: number[][];   // Target weight of each asset per year from year 1, the last row continuing
+    policy: RebalancingPolicy;
+    band: number;                // 'threshold': absolute drift that triggers a rebalance, e.g. 0.05 for 5 points
+    numPaths: number;
+    seed: number;
+}
+
+export interface MultiAssetResult {
+    policy: RebalancingPolicy;
+    bands: FanBand[];            // Final-year fan bands, widest first
+    median: number;              // Final-year median value
+    mean: number;                // Final-year mean value
+    finalMix: Record<AssetClass, number>; // Average final weight of each asset class over paths with money left
+    rebalancesPerPath: number;   // Average number of rebalancing trades per path
+}
+
+export const REBALANCING_POLICIES: RebalancingPolicy[] = ['never', 'annual', 'threshold'];
+
+// --- HELPERS --- //
+
+/**
+ * Lower-triangular L with L L' = C for a correlation matrix. Pivots that round below zero (a matrix
+ * that is not positive semi-definite) are treated as zero, so the draws stay finite.
+ */
+const choleskyFactor = (matrix: number[][]): number[][] => {
+    const n = matrix.length;
+    const L: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = matrix[i][j];
+            for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+            if (i === j) L[i][i] = Math.sqrt(Math.max(0, sum));
+            else L[i][j] = L[j][j] === 0 ? 0 : sum / L[j][j];
+        }
+    }
+    return L;
+};
+
+const targetsForYear = (targetWeights: number[][], year: number) => targetWeights[Math.min(year, targetWeights.length) - 1];
+
+// --- SIMULATION --- //
+
+/**
+ * Monte Carlo projection that holds every position separately. Each step draws one correlated return
+ * per position (correlations by asset class, from the same `returnModel` as the single-stream engines),
+ * takes each position's expense ratio, and invests each contribution stream in its own position.
+ * Lump sums are invested at the year's target weights and withdrawals are taken pro rata to holdings,
+ * both at the end of the year, with the projection's front and back loads. Every policy run with the
+ * same seed sees the same returns, so differences between policies come from the trading alone.
+ * @param {MultiAssetInput} input - The simulation inputs.
+ * @returns {MultiAssetResult} Final-year distribution, asset-class mix and trading frequency.
+ */
+export const simulateMultiAsset = (input: MultiAssetInput): MultiAssetResult => {
+    const { projection: params, assets, policy } = input;
+    const percentiles = normalizePercentiles(params.percentiles);
+    const n = assets.length;
+    const numPaths = clampNumPaths(input.numPaths);
+    const stepsPerYear = STEPS_PER_YEAR[params.timeStep];
+    const fees = projectionFees(params);
+    const streams = contributionStreams(params);
+
+    const emptyMix = Object.fromEntries(ASSET_CLASSES.map((c) => [c, 0])) as Record<AssetClass, number>;
+    if (n === 0 || params.projectionYears <= 0 || input.targetWeights.length === 0) {
+        return { policy, bands: toBands(percentiles, () => 0), median: 0, mean: 0, finalMix: emptyMix, rebalancesPerPath: 0 };
+    }
+
+    const L = choleskyFactor(assets.map((a) => assets.map((b) => (a === b ? 1 : correlationBetween(input.correlations, a.assetClass, b.assetClass)))));
+    const feeFactors = assets.map((a) => Math.pow(1 - a.expenseRatio, 1 / stepsPerYear));
+    const logDrift = assets.map((a) => (a.expectedReturn - 0.5 * a.volatility ** 2) / stepsPerYear);
+    const stepVol = assets.map((a) => a.volatility / Math.sqrt(stepsPerYear));
+    const normalSteps = assets.map((a) => {
+        const step = stepReturnMoments(a.expectedReturn, a.volatility, 'normal', stepsPerYear);
+        return { m: step.m, sd: Math.sqrt(Math.max(0, step.A - step.m ** 2)) };
+    });
+
+    const normal = createNormal(createRandom(input.seed));
+    const holdings = Array.from({ length: numPaths }, () => new Float64Array(n));
+    const z = new Float64Array(n);
+    let rebalances = 0;
+
+    const total = (h: Float64Array) => h.reduce((acc, v) => acc + v, 0);
+    const rebalance = (h: Float64Array, targets: number[]) => {
+        const value = total(h);
+        if (value <= 0) return;
+        for (let i = 0; i < n; i++) h[i] = value * targets[i];
+        rebalances++;
+    };
+    const drifted = (h: Float64Array, targets: number[]) => {
+        const value = total(h);
+        return value > 0 && targets.some((t, i) => Math.abs(h[i] / value - t) > input.band);
+    };
+
+    for (let year = 1; year <= params.projectionYears; year++) {
+        const targets = targetsForYear(input.targetWeights, year);
+        const instalments = assets.map((_, i) => {
+            const stream = streams[i];
+            return stream ? streamInvestmentForYear(params, stream, year) * (1 - streamFrontLoad(params, stream)) / stepsPerYear : 0;
+        });
+        const lumpSum = params.lumpSums.reduce((acc, l) => acc + (l.year === year ? l.amount : 0), 0) * (1 - fees.frontLoad);
+        const redemption = withdrawalForYear(params, year) / (1 - fees.backLoad);
+
+        for (const h of holdings) {
+            if (policy === 'annual' && year > 1) rebalance(h, targets);
+            for (let k = 0; k < stepsPerYear; k++) {
+                for (let i = 0; i < n; i++) z[i] = normal();
+                for (let i = 0; i < n; i++) {
+                    let e = 0;
+                    for (let j = 0; j <= i; j++) e += L[i][j] * z[j];
+                    const gross = params.returnModel === 'lognormal'
+                        ? Math.exp(logDrift[i] + stepVol[i] * e)
+                        : normalSteps[i].m + normalSteps[i].sd * e;
+                    h[i] = params.contributionTiming === 'begin'
+                        ? (h[i] + instalments[i]) * gross * feeFactors[i]
+                        : h[i] * gross * feeFactors[i] + instalments[i];
+                }
+                if (policy === 'threshold' && drifted(h, targets)) rebalance(h, targets);
+            }
+            for (let i = 0; i < n; i++) h[i] += lumpSum * targets[i];
+            if (redemption > 0) {
+                const value = total(h);
+                const scale = value > redemption ? (value - redemption) / value : 0;
+                for (let i = 0; i < n; i++) h[i] *= scale;
+            }
+        }
+    }
+
+    const finals = new Float64Array(numPaths);
+    const finalMix = { ...emptyMix };
+    let funded = 0;
+    holdings.forEach((h, p) => {
+        const value = total(h);
+        finals[p] = value;
+        if (value <= 0) return;
+        funded++;
+        assets.forEach((a, i) => {
+            if (a.assetClass in finalMix) finalMix[a.assetClass as AssetClass] += h[i] / value;
+        });
+    });
+    ASSET_CLASSES.forEach((c) => { finalMix[c] = funded > 0 ? finalMix[c] / funded : 0; });
+    finals.sort();
+
+    return {
+        policy,
+        bands: toBands(percentiles, (prob) => sampleQuantile(finals, prob)),
+        median: sampleQuantile(finals, 0.5),
+        mean: finals.reduce((acc, v) => acc + v, 0) / numPaths,
+        finalMix,
+        rebalancesPerPath: rebalances / numPaths,
+    };
+};
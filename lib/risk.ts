@@ -0,0 +1,125 @@
+import type { Position } from '@/components/Portfolio';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * Asset classes offered in the portfolio. The order is the row/column order of `CorrelationMatrix`.
+ */
+export const ASSET_CLASSES = ['Cash', 'Fixed Income', 'Local Equity', 'Global Equity', 'Alternative'] as const;
+
+export type AssetClass = typeof ASSET_CLASSES[number];
+
+/**
+ * Symmetric correlation matrix between asset classes, indexed in `ASSET_CLASSES` order.
+ */
+export type CorrelationMatrix = number[][];
+
+// --- DEFAULT ASSUMPTIONS --- //
+
+/**
+ * Annual volatility per asset class as a percentage, used when a position has none of its own.
+ */
+export const DEFAULT_ASSET_CLASS_VOLATILITY: Record<AssetClass, number> = {
+    'Cash': 0.5,
+    'Fixed Income': 5,
+    'Local Equity': 20,
+    'Global Equity': 16,
+    'Alternative': 12,
+};
+
+export const DEFAULT_CORRELATIONS: CorrelationMatrix = [
+    [1.0, 0.1, 0.0, 0.0, 0.0],
+    [0.1, 1.0, 0.1, 0.2, 0.2],
+    [0.0, 0.1, 1.0, 0.6, 0.4],
+    [0.0, 0.2, 0.6, 1.0, 0.5],
+    [0.0, 0.2, 0.4, 0.5, 1.0],
+];
+
+// --- HELPERS --- //
+
+/**
+ * Volatility of a position as a decimal, falling back to its asset class default.
+ * @param {Position} position - The position.
+ * @returns {number} Annual volatility (e.g., 0.16 for 16%).
+ */
+export const positionVolatility = (position: Position): number => {
+    const pct = position.volatility ?? DEFAULT_ASSET_CLASS_VOLATILITY[position.assetClass as AssetClass] ?? 0;
+    return pct / 100;
+};
+
+/**
+ * Correlation between two asset classes. Unknown classes are uncorrelated with everything but themselves.
+ */
+export const correlationBetween = (correlations: CorrelationMatrix, a: string, b: string): number => {
+    if (a === b) return 1;
+    const i = ASSET_CLASSES.indexOf(a as AssetClass);
+    const j = ASSET_CLASSES.indexOf(b as AssetClass);
+    if (i < 0 || j < 0) return 0;
+    return correlations[i]?.[j] ?? 0;
+};
+
+/**
+ * Returns a copy of the matrix with entry (i, j) and its mirror set to `value`, clamped to [-1, 1].
+ * The diagonal is fixed at 1.
+ */
+export const setCorrelation = (correlations: CorrelationMatrix, i: number, j: number, value: number): CorrelationMatrix => {
+    if (i === j || !Number.isFinite(value)) return correlations;
+    const clamped = Math.max(-1, Math.min(1, value));
+    const next = correlations.map((row) => [...row]);
+    next[i][j] = clamped;
+    next[j][i] = clamped;
+    return next;
+};
+
+/**
+ * Checks the matrix is positive semi-definite with a Cholesky factorization.
+ * A matrix that fails can produce a negative portfolio variance.
+ * @param {CorrelationMatrix} correlations - The matrix to test.
+ * @returns {boolean} Whether the matrix is a valid correlation matrix.
+ */
+export const isPositiveSemiDefinite = (correlations: CorrelationMatrix): boolean => {
+    const n = correlations.length;
+    const L: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = correlations[i][j];
+            for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+            if (i === j) {
+                if (sum < -1e-10) return false;
+                L[i][i] = Math.sqrt(Math.max(0, sum));
+            } else {
+                L[i][j] = L[j][j] === 0 ? 0 : sum / L[j][j];
+            }
+        }
+    }
+    return true;
+};
+
+// --- PORTFOLIO RISK --- //
+
+/**
+ * Portfolio volatility sqrt(w'Σw) with weights from investment amounts and
+ * Σ_ij = σ_i σ_j ρ(class_i, class_j).
+ *
+ * @param {Position[]} positions - An array of investment positions.
+ * @param {CorrelationMatrix} correlations - Asset class correlations.
+ * @returns {number} Annual portfolio volatility as a decimal.
+ */
+export const calculatePortfolioVolatility = (positions: Position[], correlations: CorrelationMatrix): number => {
+    const total = positions.reduce((acc, pos) => acc + pos.investmentAmount, 0);
+    if (total === 0) return 0;
+
+    const weights = positions.map((pos) => pos.investmentAmount / total);
+    const sigmas = positions.map(positionVolatility);
+
+    let variance = 0;
+    for (let i = 0; i < positions.length; i++) {
+        for (let j = 0; j < positions.length; j++) {
+            const rho = i === j ? 1 : correlationBetween(correlations, positions[i].assetClass, positions[j].assetClass);
+            variance += weights[i] * weights[j] * sigmas[i] * sigmas[j] * rho;
+        }
+    }
+
+    // Clamp in case a non-PSD matrix was entered
+    return Math.sqrt(Math.max(0, variance));
+};
@@ -0,0 +1,156 @@
+import type { Position } from '@/components/Portfolio';
+import type { ContributionTiming, LumpSum, ProjectionMethod, ReturnModel, TimeStep } from '@/components/ParametersPanel';
+import type { Goal } from '@/components/GoalsPanel';
+import type { CorrelationMatrix } from '@/lib/risk';
+import { DEFAULT_GLIDE_PATH, GlidePath } from '@/lib/glidePath';
+import { withPositionIds } from '@/lib/positions';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * Every user input of the calculator, in the units the UI edits them in
+ * (rates as percentages, e.g. 2 for 2%).
+ */
+export interface ScenarioInputs {
+    positions: Position[];
+    correlations: CorrelationMatrix;
+    age: number;
+    projectionYears: number;
+    percentiles: number[];
+    lumpSums: LumpSum[];
+    projectionMethod: ProjectionMethod;
+    returnModel: ReturnModel;
+    timeStep: TimeStep;
+    contributionTiming: ContributionTiming;
+    glidePath: GlidePath;
+    numPaths: number;
+    seed: number;
+    retirementAge: number;
+    annualWithdrawal: number;
+    withdrawalGrowth: number;
+    contributionGrowth: number;
+    inflationRate: number;
+    inflationVolatility: number;
+    grossIncome: number;
+    otherDeductions: number;
+    providentFundContribution: number;
+    goals: Goal[];
+    goalConfidence: number;
+}
+
+/**
+ * A named, saved set of inputs.
+ */
+export interface Scenario {
+    id: string;
+    name: string;
+    savedAt: string; // ISO timestamp
+    inputs: ScenarioInputs;
+}
+
+/**
+ * The persisted document. `version` is bumped whenever `ScenarioInputs` changes shape
+ * and `migrateScenarioStore` learns how to upgrade the previous version.
+ */
+interface ScenarioStore {
+    version: number;
+    scenarios: Scenario[];
+}
+
+// --- CONSTANTS --- //
+
+export const SCENARIO_SCHEMA_VERSION = 5;
+export const SCENARIO_STORAGE_KEY = 'athena-tax-planning.scenarios';
+
+// --- HELPERS --- //
+
+/**
+ * Short unique id for a scenario.
+ */
+export const createScenarioId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isScenario = (value: unknown): value is Scenario => {
+    const s = value as Scenario;
+    return !!s && typeof s.id === 'string' && typeof s.name === 'string'
+        && typeof s.inputs === 'object' && s.inputs !== null && Array.isArray(s.inputs.positions);
+};
+
+/**
+ * Upgrades a stored document to the current schema. Unknown or newer versions yield no scenarios
+ * rather than feeding a shape the app does not understand into the calculator.
+ * @param {unknown} raw - Parsed JSON from storage.
+ * @returns {Scenario[]} Scenarios in the current schema.
+ */
+export const migrateScenarioStore = (raw: unknown): Scenario[] => {
+    const store = raw as ScenarioStore;
+    if (!store || typeof store !== 'object' || !Array.isArray(store.scenarios)) return [];
+    switch (store.version) {
+        case 1:
+            // Version 1 stored a single best/worst percentile; it becomes the only fan band.
+            return migrateScenarioStore({
+                version: 2,
+                scenarios: store.scenarios.filter(isScenario).map((s) => {
+                    const { percentile, ...inputs } = s.inputs as ScenarioInputs & { percentile?: number };
+                    return { ...s, inputs: { ...inputs, percentiles: [percentile ?? 10] } };
+                }),
+            });
+        case 2:
+            // Version 2 projected in whole years with end-of-year contributions.
+            return migrateScenarioStore({
+                version: 3,
+                scenarios: store.scenarios.filter(isScenario).map((s) => ({
+                    ...s,
+                    inputs: { ...s.inputs, timeStep: 'annual', contributionTiming: 'end' },
+                })),
+            });
+        case 3:
+            // Version 3 positions had no ids.
+            return migrateScenarioStore({
+                version: 4,
+                scenarios: store.scenarios.filter(isScenario).map((s) => ({
+                    ...s,
+                    inputs: { ...s.inputs, positions: withPositionIds(s.inputs.positions) },
+                })),
+            });
+        case 4:
+            // Version 4 kept the allocation fixed for the whole horizon.
+            return store.scenarios.filter(isScenario).map((s) => ({
+                ...s,
+                inputs: { ...s.inputs, glidePath: DEFAULT_GLIDE_PATH },
+            }));
+        case SCENARIO_SCHEMA_VERSION:
+            return store.scenarios.filter(isScenario);
+        default:
+            return [];
+    }
+};
+
+// --- PERSISTENCE --- //
+
+/**
+ * Reads saved scenarios from localStorage. Returns an empty list when storage is unavailable or corrupt.
+ * @returns {Scenario[]} The saved scenarios.
+ */
+export const loadScenarios = (): Scenario[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const json = window.localStorage.getItem(SCENARIO_STORAGE_KEY);
+        return json ? migrateScenarioStore(JSON.parse(json)) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Writes the scenarios to localStorage under the current schema version.
+ * @param {Scenario[]} scenarios - The scenarios to persist.
+ */
+export const saveScenarios = (scenarios: Scenario[]) => {
+    if (typeof window === 'undefined') return;
+    const store: ScenarioStore = { version: SCENARIO_SCHEMA_VERSION, scenarios };
+    try {
+        window.localStorage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(store));
+    } catch {
+        // Quota exceeded or storage disabled: scenarios stay in memory for this session.
+    }
+};
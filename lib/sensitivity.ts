@@ -0,0 +1,187 @@
+import { ProjectionInput, ProjectionOutput, projectionFees } from '@/lib/projection';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * The inputs the sensitivity analysis moves one at a time.
+ */
+export type SensitivityInput = 'expectedReturn' | 'volatility' | 'investment' | 'lumpSum' | 'horizon' | 'fees' | 'inflation';
+
+/**
+ * Size of one perturbation of each input, applied both down and up:
+ * - 'expectedReturn', 'volatility', 'fees' (expense ratio), 'inflation': added to the rate, e.g. 0.01 for 1 point
+ * - 'investment', 'lumpSum': relative change of every amount, e.g. 0.1 for 10%
+ * - 'horizon': whole years
+ */
+export type SensitivityDeltas = Record<SensitivityInput, number>;
+
+/**
+ * The terminal values the analysis reports.
+ */
+export interface TerminalValues {
+    median: number;
+    p10: number;
+}
+
+export interface TornadoBar {
+    input: SensitivityInput;
+    delta: number;
+    low: TerminalValues;  // With the input moved down by `delta`
+    high: TerminalValues; // With the input moved up by `delta`
+}
+
+export interface TornadoResult {
+    base: TerminalValues;
+    bars: TornadoBar[]; // Largest swing of the median first
+}
+
+export interface HeatmapResult {
+    rowInput: SensitivityInput;
+    colInput: SensitivityInput;
+    rowDeltas: number[];
+    colDeltas: number[];
+    medians: number[][]; // medians[row][col]
+}
+
+/**
+ * Runs one projection; lets the caller pick the engine (e.g. simulation when withdrawals require it).
+ */
+export type Projector = (params: ProjectionInput) => ProjectionOutput;
+
+// --- CONSTANTS --- //
+
+export const SENSITIVITY_INPUTS: SensitivityInput[] = ['expectedReturn', 'volatility', 'investment', 'lumpSum', 'horizon', 'fees', 'inflation'];
+
+export const DEFAULT_SENSITIVITY_DELTAS: SensitivityDeltas = {
+    expectedReturn: 0.01,
+    volatility: 0.02,
+    investment: 0.1,
+    lumpSum: 0.1,
+    horizon: 2,
+    fees: 0.005,
+    inflation: 0.01,
+};
+
+// Multiples of the delta on each axis of the two-way heatmap
+export const HEATMAP_STEPS = [-2, -1, 0, 1, 2];
+
+// --- PERTURBATION --- //
+
+/**
+ * The projection inputs with one input moved by `delta`. Rates are floored at zero; a glide path's
+ * per-year parameters move with the fixed ones. A longer horizon extends the streams that ran to the
+ * old horizon, a shorter one cuts every stream at the new one.
+ * @param {ProjectionInput} params - The base inputs.
+ * @param {SensitivityInput} input - The input to move.
+ * @param {number} delta - Signed change, in the units of `SensitivityDeltas`.
+ * @returns {ProjectionInput} The perturbed inputs.
+ */
+export const perturbProjection = (params: ProjectionInput, input: SensitivityInput, delta: number): ProjectionInput => {
+    switch (input) {
+        case 'expectedReturn':
+            return {
+                ...params,
+                expectedReturn: params.expectedReturn + delta,
+                returnPath: params.returnPath?.map((y) => ({ ...y, expectedReturn: y.expectedReturn + delta })),
+            };
+        case 'volatility':
+            return {
+                ...params,
+                volatility: Math.max(0, params.volatility + delta),
+                returnPath: params.returnPath?.map((y) => ({ ...y, volatility: Math.max(0, y.volatility + delta) })),
+            };
+        case 'investment': {
+            const scale = Math.max(0, 1 + delta);
+            return {
+                ...params,
+                investment: params.investment * scale,
+                contributions: params.contributions?.map((s) => ({ ...s, amount: s.amount * scale })),
+            };
+        }
+        case 'lumpSum': {
+            const scale = Math.max(0, 1 + delta);
+            return { ...params, lumpSums: params.lumpSums.map((l) => ({ ...l, amount: l.amount * scale })) };
+        }
+        case 'horizon': {
+            const projectionYears = Math.max(1, Math.round(params.projectionYears + delta));
+            return {
+                ...params,
+                projectionYears,
+                contributions: params.contributions?.map((s) => ({
+                    ...s,
+                    endYear: s.endYear >= params.projectionYears ? projectionYears : Math.min(s.endYear, projectionYears),
+                })),
+            };
+        }
+        case 'fees': {
+            const fees = projectionFees(params);
+            return { ...params, fees: { ...fees, expenseRatio: Math.min(1, Math.max(0, fees.expenseRatio + delta)) } };
+        }
+        case 'inflation':
+            return { ...params, inflationRate: params.inflationRate + delta };
+    }
+};
+
+// --- ANALYSIS --- //
+
+/**
+ * Final-year median and 10th percentile of a projection, in nominal terms or today's money.
+ */
+export const terminalValues = (output: ProjectionOutput, realTerms: boolean): TerminalValues => {
+    const last = output.yearlyData[output.yearlyData.length - 1];
+    if (!last) return { median: 0, p10: 0 };
+    const band = (realTerms ? last.realBands : last.bands).find((b) => b.p === 10);
+    return {
+        median: realTerms ? last.realMedianCase : last.medianCase,
+        p10: band?.low ?? 0,
+    };
+};
+
+/**
+ * Moves every input down and up by its delta, one at a time, and records the terminal values.
+ * The projection always reports the 10th percentile, whatever bands the base inputs ask for.
+ * @param {ProjectionInput} params - The base inputs.
+ * @param {SensitivityDeltas} deltas - Perturbation size of each input.
+ * @param {Projector} project - The projection engine.
+ * @param {boolean} realTerms - Whether values are measured in today's money (the only way inflation moves them).
+ * @returns {TornadoResult} Base values and one bar per input, largest median swing first.
+ */
+export const sensitivityTornado = (params: ProjectionInput, deltas: SensitivityDeltas, project: Projector, realTerms: boolean): TornadoResult => {
+    const withP10 = { ...params, percentiles: [10] };
+    const run = (p: ProjectionInput) => terminalValues(project(p), realTerms);
+    const bars = SENSITIVITY_INPUTS.map((input) => ({
+        input,
+        delta: deltas[input],
+        low: run(perturbProjection(withP10, input, -deltas[input])),
+        high: run(perturbProjection(withP10, input, deltas[input])),
+    }));
+    const swing = (bar: TornadoBar) => Math.abs(bar.high.median - bar.low.median);
+    return { base: run(withP10), bars: bars.sort((a, b) => swing(b) - swing(a)) };
+};
+
+/**
+ * Final median over a grid of two inputs moved together, each by `HEATMAP_STEPS` multiples of its delta.
+ * @param {ProjectionInput} params - The base inputs.
+ * @param {SensitivityInput} rowInput - Input moved down the rows.
+ * @param {SensitivityInput} colInput - Input moved across the columns.
+ * @param {SensitivityDeltas} deltas - Perturbation size of each input.
+ * @param {Projector} project - The projection engine.
+ * @param {boolean} realTerms - Whether values are measured in today's money.
+ * @returns {HeatmapResult} The grid; the centre cell is the base projection.
+ */
+export const sensitivityHeatmap = (
+    params: ProjectionInput,
+    rowInput: SensitivityInput,
+    colInput: SensitivityInput,
+    deltas: SensitivityDeltas,
+    project: Projector,
+    realTerms: boolean,
+): HeatmapResult => {
+    const rowDeltas = HEATMAP_STEPS.map((k) => k * deltas[rowInput]);
+    const colDeltas = HEATMAP_STEPS.map((k) => k * deltas[colInput]);
+    const medians = rowDeltas.map((rowDelta) => {
+        const rowParams = perturbProjection(params, rowInput, rowDelta);
+        return colDeltas.map((colDelta) => terminalValues(project(perturbProjection(rowParams, colInput, colDelta)), realTerms).median);
+    });
+    return { rowInput, colInput, rowDeltas, colDeltas, medians };
+};
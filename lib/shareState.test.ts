@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { decodeShareState, encodeShareState, SHARE_STATE_VERSION } from '@/lib/shareState';
+import { DEFAULT_GLIDE_PATH } from '@/lib/glidePath';
+import { DEFAULT_CORRELATIONS } from '@/lib/risk';
+import type { ScenarioInputs } from '@/lib/scenarios';
+
+const INPUTS: ScenarioInputs = {
+    positions: [{
+        id: 'pos-1', symbol: 'SSF-EQ', expectedReturn: 7, assetClass: 'Local Equity', investmentAmount: 100_000, volatility: 18,
+        startYear: 2, endYear: 11, contributionGrowth: 3, fundType: 'SSF', expenseRatio: 1.2, frontLoad: 1, backLoad: 0.5,
+    }],
+    correlations: DEFAULT_CORRELATIONS,
+    age: 35,
+    projectionYears: 25,
+    percentiles: [10, 25],
+    lumpSums: [{ label: 'Bonus', amount: 500_000, year: 3 }],
+    projectionMethod: 'overlay',
+    returnModel: 'lognormal',
+    timeStep: 'monthly',
+    contributionTiming: 'begin',
+    glidePath: { ...DEFAULT_GLIDE_PATH, mode: 'linear' },
+    numPaths: 2000,
+    seed: 7,
+    retirementAge: 60,
+    annualWithdrawal: 0,
+    withdrawalGrowth: 0,
+    contributionGrowth: 2,
+    inflationRate: 2.5,
+    inflationVolatility: 1,
+    grossIncome: 1_200_000,
+    otherDeductions: 60_000,
+    providentFundContribution: 0,
+    goals: [],
+    goalConfidence: 75,
+};
+
+const token = (version: number, payload: unknown) => `v${version}.${btoa(JSON.stringify(payload)).replace(/=+$/, '')}`;
+
+describe('decodeShareState', () => {
+    it('round-trips the current version', () => {
+        const encoded = encodeShareState(INPUTS, { isAge: true, isRealTerms: false, centralLine: 'median' });
+        expect(encoded.startsWith(`v${SHARE_STATE_VERSION}.`)).toBe(true);
+        const { inputs, view } = decodeShareState(encoded)!;
+        const { id: _id, ...position } = INPUTS.positions[0];
+        expect(inputs.positions).toEqual([expect.objectContaining(position)]);
+        expect(inputs.glidePath).toEqual(INPUTS.glidePath);
+        expect(inputs.percentiles).toEqual([10, 25]);
+        expect(view).toEqual({ isAge: true, isRealTerms: false, centralLine: 'median' });
+    });
+
+    it('drops position tuples of another layout and ignores other versions', () => {
+        const decoded = decodeShareState(token(SHARE_STATE_VERSION, { p: [['SET50', 'Local Equity', 8, 50_000, 20]], q: 5 }))!;
+        expect(decoded.inputs.positions).toEqual([]);
+        expect(decoded.inputs.percentiles).toBeUndefined();
+        expect(decodeShareState(token(SHARE_STATE_VERSION + 1, { a: 40 }))).toBeNull();
+        expect(decodeShareState(token(0, { a: 40 }))).toBeNull();
+    });
+});
@@ -0,0 +1,316 @@
+import type { Position } from '@/components/Portfolio';
+import type { ContributionTiming, LumpSum, ProjectionMethod, ReturnModel, TimeStep } from '@/components/ParametersPanel';
+import type { Goal, GoalPriority } from '@/components/GoalsPanel';
+import { CentralLine, normalizePercentiles, SIMULATION_PATHS, SIMULATION_SEED } from '@/lib/projection';
+import { ASSET_CLASSES, CorrelationMatrix } from '@/lib/risk';
+import { FUND_TYPES } from '@/lib/tax';
+import { createPositionId } from '@/lib/positions';
+import { GLIDE_PATH_MODES, GlidePathPoint } from '@/lib/glidePath';
+import type { ScenarioInputs } from '@/lib/scenarios';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * Display settings carried in a share link alongside the inputs.
+ */
+export interface ShareView {
+    isAge: boolean;       // Chart x-axis shows age instead of year
+    isRealTerms: boolean; // Values shown in today's money
+    centralLine: CentralLine; // Series drawn as the fan's central line
+}
+
+/**
+ * Everything a share link reproduces. Fields that were missing or invalid in the link are absent.
+ */
+export interface SharedState {
+    inputs: Partial<ScenarioInputs>;
+    view: Partial<ShareView>;
+}
+
+type ScalarKey = {
+    [K in keyof ScenarioInputs]: ScenarioInputs[K] extends number ? K : never
+}[keyof ScenarioInputs];
+
+interface ScalarField {
+    key: ScalarKey;
+    short: string;    // Key in the encoded payload
+    min: number;
+    max: number;
+    integer?: boolean;
+}
+
+// --- SCHEMA --- //
+
+/**
+ * Bump when the payload layout changes; links with another version are ignored.
+ */
+export const SHARE_STATE_VERSION = 1;
+const HASH_PARAM = 's';
+
+// [symbol, class, return, amount, volatility, startYear, endYear, contributionGrowth, fundType, expenseRatio, frontLoad, backLoad]
+const POSITION_TUPLE_LENGTH = 12;
+
+// Bounds mirror the limits of the corresponding inputs in the UI.
+const SCALAR_FIELDS: ScalarField[] = [
+    { key: 'age', short: 'a', min: 18, max: 70, integer: true },
+    { key: 'projectionYears', short: 'n', min: 5, max: 50, integer: true },
+    { key: 'numPaths', short: 'k', ...SIMULATION_PATHS, integer: true },
+    { key: 'seed', short: 'sd', ...SIMULATION_SEED, integer: true },
+    { key: 'retirementAge', short: 'ra', min: 40, max: 80, integer: true },
+    { key: 'annualWithdrawal', short: 'w', min: 0, max: 10_000_000 },
+    { key: 'withdrawalGrowth', short: 'wg', min: 0, max: 10 },
+    { key: 'contributionGrowth', short: 'cg', min: 0, max: 15 },
+    { key: 'inflationRate', short: 'i', min: 0, max: 15 },
+    { key: 'inflationVolatility', short: 'iv', min: 0, max: 10 },
+    { key: 'grossIncome', short: 'gi', min: 0, max: 1e10 },
+    { key: 'otherDeductions', short: 'od', min: 0, max: 1e10 },
+    { key: 'providentFundContribution', short: 'pf', min: 0, max: 1e10 },
+    { key: 'goalConfidence', short: 'gc', min: 1, max: 99 },
+];
+
+const PROJECTION_METHODS: ProjectionMethod[] = ['analytical', 'monteCarlo', 'overlay', 'bootstrap'];
+const RETURN_MODELS: ReturnModel[] = ['normal', 'lognormal'];
+const TIME_STEPS: TimeStep[] = ['annual', 'quarterly', 'monthly'];
+const CONTRIBUTION_TIMINGS: ContributionTiming[] = ['begin', 'end'];
+const GOAL_PRIORITIES: GoalPriority[] = ['high', 'medium', 'low'];
+const CENTRAL_LINES: CentralLine[] = ['mean', 'median', 'deterministic'];
+const MAX_LIST_LENGTH = 50;
+const MAX_LABEL_LENGTH = 60;
+
+// --- VALIDATION HELPERS --- //
+
+/**
+ * Finite number clamped to [min, max], or undefined when the value is not a number.
+ */
+const clampNumber = (value: unknown, min: number, max: number, integer = false): number | undefined => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+    const clamped = Math.min(max, Math.max(min, value));
+    return integer ? Math.round(clamped) : clamped;
+};
+
+const cleanLabel = (value: unknown): string | undefined => {
+    return typeof value === 'string' ? value.slice(0, MAX_LABEL_LENGTH) : undefined;
+};
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[]): T | undefined => {
+    return options.includes(value as T) ? (value as T) : undefined;
+};
+
+/**
+ * Keeps the entries of a list that decode, dropping malformed ones.
+ */
+const decodeList = <T>(value: unknown, decode: (entry: unknown[]) => T | undefined): T[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return value
+        .slice(0, MAX_LIST_LENGTH)
+        .map((entry) => (Array.isArray(entry) ? decode(entry) : undefined))
+        .filter((entry): entry is T => entry !== undefined);
+};
+
+// --- BASE64URL --- //
+
+const toBase64Url = (text: string) => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach((b) => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+};
+
+// --- ENCODING --- //
+
+/**
+ * Encodes inputs and view settings into a compact `v<version>.<base64url JSON>` token.
+ * Lists are stored as tuples and the correlation matrix as its upper triangle.
+ * @param {ScenarioInputs} inputs - All user inputs.
+ * @param {ShareView} view - Display settings.
+ * @returns {string} The token.
+ */
+export const encodeShareState = (inputs: ScenarioInputs, view: ShareView): string => {
+    const payload: Record<string, unknown> = {
+        p: inputs.positions.map((pos) => [
+            pos.symbol, pos.assetClass, pos.expectedReturn, pos.investmentAmount, pos.volatility ?? null,
+            pos.startYear ?? null, pos.endYear ?? null, pos.contributionGrowth ?? null, pos.fundType ?? null,
+            pos.expenseRatio ?? null, pos.frontLoad ?? null, pos.backLoad ?? null,
+        ]),
+        c: inputs.correlations.flatMap((row, i) => row.slice(i + 1)),
+        q: inputs.percentiles,
+        l: inputs.lumpSums.map((l) => [l.label, l.amount, l.year]),
+        g: inputs.goals.map((g) => [g.label, g.amount, g.targetAge, g.priority, g.inTodaysMoney ? 1 : 0]),
+        m: inputs.projectionMethod,
+        r: inputs.returnModel,
+        ts: inputs.timeStep,
+        ct: inputs.contributionTiming,
+        gp: [
+            inputs.glidePath.mode, inputs.glidePath.startAge, inputs.glidePath.targetAge,
+            inputs.glidePath.startEquityShare, inputs.glidePath.endEquityShare,
+            inputs.glidePath.table.map((row) => [row.age, row.equityShare]),
+        ],
+        x: view.isAge ? 1 : 0,
+        rt: view.isRealTerms ? 1 : 0,
+        cl: view.centralLine,
+    };
+    for (const field of SCALAR_FIELDS) payload[field.short] = inputs[field.key];
+    return `v${SHARE_STATE_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+/**
+ * Decodes a token produced by `encodeShareState`. Every field is validated independently:
+ * numbers are clamped to the UI limits and malformed fields or list entries are dropped,
+ * so a damaged link degrades to defaults instead of breaking the calculator.
+ * @param {string} token - The token.
+ * @returns {SharedState | null} The decoded state, or null for an unreadable token or unknown version.
+ */
+export const decodeShareState = (token: string): SharedState | null => {
+    const match = /^v(\d+)\.([A-Za-z0-9_-]+)$/.exec(token);
+    if (!match || Number(match[1]) !== SHARE_STATE_VERSION) return null;
+
+    let payload: Record<string, unknown>;
+    try {
+        payload = JSON.parse(fromBase64Url(match[2]));
+    } catch {
+        return null;
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+
+    const inputs: Partial<ScenarioInputs> = {};
+    for (const field of SCALAR_FIELDS) {
+        const value = clampNumber(payload[field.short], field.min, field.max, field.integer);
+        if (value !== undefined) inputs[field.key] = value;
+    }
+
+    if (Array.isArray(payload.q)) {
+        inputs.percentiles = normalizePercentiles(payload.q.filter((p): p is number => typeof p === 'number'));
+    }
+
+    const positions = decodeList<Position>(payload.p, (entry) => {
+        if (entry.length !== POSITION_TUPLE_LENGTH) return undefined;
+        const [symbol, assetClass, expectedReturn, investmentAmount, volatility, startYear, endYear, contributionGrowth, fundType, expenseRatio, frontLoad, backLoad] = entry;
+        const cleanSymbol = cleanLabel(symbol);
+        const cleanAmount = clampNumber(investmentAmount, 0, 1e10);
+        if (cleanSymbol === undefined || cleanAmount === undefined) return undefined;
+        return {
+            id: createPositionId(),
+            symbol: cleanSymbol,
+            assetClass: oneOf(assetClass, ASSET_CLASSES) ?? 'Global Equity',
+            expectedReturn: clampNumber(expectedReturn, -50, 50) ?? 0,
+            investmentAmount: cleanAmount,
+            volatility: clampNumber(volatility, 0, 100),
+            startYear: clampNumber(startYear, 1, 50, true),
+            endYear: clampNumber(endYear, 1, 50, true),
+            contributionGrowth: clampNumber(contributionGrowth, 0, 15),
+            fundType: oneOf(fundType, FUND_TYPES),
+            expenseRatio: clampNumber(expenseRatio, 0, 10),
+            frontLoad: clampNumber(frontLoad, 0, 10),
+            backLoad: clampNumber(backLoad, 0, 10),
+        };
+    });
+    if (positions) inputs.positions = positions;
+
+    const n = ASSET_CLASSES.length;
+    if (Array.isArray(payload.c) && payload.c.length === (n * (n - 1)) / 2) {
+        const upper = payload.c.map((v) => clampNumber(v, -1, 1) ?? 0);
+        const correlations: CorrelationMatrix = Array.from({ length: n }, () => new Array(n).fill(1));
+        let k = 0;
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                correlations[i][j] = upper[k];
+                correlations[j][i] = upper[k];
+                k++;
+            }
+        }
+        inputs.correlations = correlations;
+    }
+
+    const lumpSums = decodeList<LumpSum>(payload.l, ([label, amount, year]) => {
+        const cleanAmount = clampNumber(amount, 0, 1e10);
+        const cleanYear = clampNumber(year, 1, 50, true);
+        if (cleanAmount === undefined || cleanYear === undefined) return undefined;
+        return { label: cleanLabel(label) ?? '', amount: cleanAmount, year: cleanYear };
+    });
+    if (lumpSums) inputs.lumpSums = lumpSums;
+
+    const goals = decodeList<Goal>(payload.g, ([label, amount, targetAge, priority, inTodaysMoney]) => {
+        const cleanAmount = clampNumber(amount, 0, 1e10);
+        const cleanAge = clampNumber(targetAge, 18, 100, true);
+        if (cleanAmount === undefined || cleanAge === undefined) return undefined;
+        return {
+            label: cleanLabel(label) ?? '',
+            amount: cleanAmount,
+            targetAge: cleanAge,
+            priority: oneOf(priority, GOAL_PRIORITIES) ?? 'medium',
+            inTodaysMoney: inTodaysMoney !== 0,
+        };
+    });
+    if (goals) inputs.goals = goals;
+
+    const projectionMethod = oneOf(payload.m, PROJECTION_METHODS);
+    if (projectionMethod) inputs.projectionMethod = projectionMethod;
+    const returnModel = oneOf(payload.r, RETURN_MODELS);
+    if (returnModel) inputs.returnModel = returnModel;
+    const timeStep = oneOf(payload.ts, TIME_STEPS);
+    if (timeStep) inputs.timeStep = timeStep;
+    const contributionTiming = oneOf(payload.ct, CONTRIBUTION_TIMINGS);
+    if (contributionTiming) inputs.contributionTiming = contributionTiming;
+
+    if (Array.isArray(payload.gp)) {
+        const [mode, startAge, targetAge, startEquityShare, endEquityShare, table] = payload.gp;
+        const cleanMode = oneOf(mode, GLIDE_PATH_MODES);
+        const cleanStartAge = clampNumber(startAge, 18, 100, true);
+        const cleanTargetAge = clampNumber(targetAge, 18, 100, true);
+        const cleanStartShare = clampNumber(startEquityShare, 0, 100);
+        const cleanEndShare = clampNumber(endEquityShare, 0, 100);
+        const cleanTable = decodeList<GlidePathPoint>(table, ([age, equityShare]) => {
+            const cleanAge = clampNumber(age, 18, 100, true);
+            const cleanShare = clampNumber(equityShare, 0, 100);
+            return cleanAge === undefined || cleanShare === undefined ? undefined : { age: cleanAge, equityShare: cleanShare };
+        });
+        if (cleanMode && cleanStartAge !== undefined && cleanTargetAge !== undefined
+            && cleanStartShare !== undefined && cleanEndShare !== undefined && cleanTable) {
+            inputs.glidePath = {
+                mode: cleanMode,
+                startAge: cleanStartAge,
+                targetAge: cleanTargetAge,
+                startEquityShare: cleanStartShare,
+                endEquityShare: cleanEndShare,
+                table: cleanTable,
+            };
+        }
+    }
+
+    const view: Partial<ShareView> = {};
+    if (payload.x === 0 || payload.x === 1) view.isAge = payload.x === 1;
+    if (payload.rt === 0 || payload.rt === 1) view.isRealTerms = payload.rt === 1;
+    const centralLine = oneOf(payload.cl, CENTRAL_LINES);
+    if (centralLine) view.centralLine = centralLine;
+
+    return { inputs, view };
+};
+
+// --- URL HELPERS --- //
+
+/**
+ * Reads shared state from a location hash such as `#s=v1.eyJ...`.
+ * @param {string} hash - `window.location.hash`.
+ * @returns {SharedState | null} The decoded state, or null when the hash carries none.
+ */
+export const readShareStateFromHash = (hash: string): SharedState | null => {
+    const token = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_PARAM);
+    return token ? decodeShareState(token) : null;
+};
+
+/**
+ * Builds a share link for the current page.
+ * @param {string} baseUrl - The page URL without hash.
+ * @param {ScenarioInputs} inputs - All user inputs.
+ * @param {ShareView} view - Display settings.
+ * @returns {string} The link.
+ */
+export const buildShareUrl = (baseUrl: string, inputs: ScenarioInputs, view: ShareView): string => {
+    return `${baseUrl}#${HASH_PARAM}=${encodeShareState(inputs, view)}`;
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { Position } from '@/components/Portfolio';
+import { allocationSchedule, DEFAULT_GLIDE_PATH } from '@/lib/glidePath';
+import { calculateInvestmentProjection, ProjectionInput } from '@/lib/projection';
+import { DEFAULT_CORRELATIONS } from '@/lib/risk';
+import { StressScenario, stressedGrossReturns, stressPath } from '@/lib/stress';
+
+const EQUITY: Position = { id: 'equity', symbol: 'SET50', expectedReturn: 0, assetClass: 'Local Equity', investmentAmount: 1 };
+const BONDS: Position = { id: 'bonds', symbol: 'GOV', expectedReturn: 3, assetClass: 'Fixed Income', investmentAmount: 1 };
+
+// A single 1,000,000 lump sum deposited at the end of year 1, no contributions or fees
+const LUMP_SUM_INPUT: ProjectionInput = {
+    investment: 0,
+    age: 35,
+    projectionYears: 3,
+    expectedReturn: 0,
+    volatility: 0.15,
+    percentiles: [10],
+    lumpSums: [{ label: 'Lump sum', amount: 1_000_000, year: 1 }],
+    retirementAge: 100,
+    annualWithdrawal: 0,
+    withdrawalGrowth: 0,
+    contributionGrowth: 0,
+    inflationRate: 0,
+    inflationVolatility: 0,
+    returnModel: 'lognormal',
+    timeStep: 'monthly',
+    contributionTiming: 'end',
+};
+
+const crash = (returns: StressScenario['returns']): StressScenario => ({
+    id: 'crash', name: 'Crash', startYear: 2, duration: 1, returns, enabled: true, custom: false,
+});
+
+describe('stressPath', () => {
+    it('loses exactly the shock on a fully invested lump sum', () => {
+        for (const returnModel of ['normal', 'lognormal'] as const) {
+            const positions = [EQUITY];
+            const schedule = allocationSchedule(positions, DEFAULT_CORRELATIONS, DEFAULT_GLIDE_PATH, 35, 3);
+            const gross = stressedGrossReturns(positions, schedule, crash({ 'Local Equity': -0.4 }), returnModel);
+            expect(gross).toEqual([1, 0.6, 1]);
+            const [deposited, shocked, after] = stressPath({ ...LUMP_SUM_INPUT, returnModel }, gross);
+            expect(deposited).toBeCloseTo(1_000_000, 6);
+            expect(shocked).toBeCloseTo(600_000, 6);
+            expect(after).toBeCloseTo(600_000, 6);
+        }
+    });
+
+    it('weights shocked and unshocked classes by the year mix', () => {
+        const positions = [EQUITY, BONDS];
+        const schedule = allocationSchedule(positions, DEFAULT_CORRELATIONS, DEFAULT_GLIDE_PATH, 35, 2);
+        const [before, shocked] = stressedGrossReturns(positions, schedule, crash({ 'Local Equity': -0.4 }), 'normal');
+        expect(shocked).toBeCloseTo(0.5 * 0.6 + 0.5 * 1.03, 12);
+        expect(before).toBeCloseTo(1.015, 12);
+    });
+
+    it('follows the deterministic case when nothing is shocked', () => {
+        const positions = [EQUITY, BONDS];
+        const params = { ...LUMP_SUM_INPUT, expectedReturn: 0.015, timeStep: 'quarterly' as const };
+        const schedule = allocationSchedule(positions, DEFAULT_CORRELATIONS, DEFAULT_GLIDE_PATH, 35, 3);
+        const values = stressPath(params, stressedGrossReturns(positions, schedule, crash({}), params.returnModel));
+        calculateInvestmentProjection(params).yearlyData.forEach((d, i) => {
+            expect(values[i]).toBeCloseTo(d.deterministicCase, 6);
+        });
+    });
+});
@@ -0,0 +1,123 @@
+import type { Position } from '@/components/Portfolio';
+import type { AllocationYear } from '@/lib/glidePath';
+import { deterministicPath, grossReturnMoments, ProjectionInput, ReturnModel, STEPS_PER_YEAR } from '@/lib/projection';
+import { AssetClass } from '@/lib/risk';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * A deterministic market shock: for `duration` years from `startYear`, every position in a listed asset
+ * class earns the given annual return instead of its expected return. Unlisted classes are unaffected.
+ */
+export interface StressScenario {
+    id: string;
+    name: string;
+    startYear: number;  // First projection year of the shock
+    duration: number;   // Number of years the shock lasts
+    returns: Partial<Record<AssetClass, number>>; // Annual return during the shock, e.g. -0.4 for -40%
+    enabled: boolean;   // Whether the path is drawn and tabulated
+    custom: boolean;    // User-defined rather than a preset
+}
+
+export interface StressShortfall {
+    final: number;      // Median minus stressed value in the final year
+    worst: number;      // Largest median minus stressed value over the horizon
+    worstYear: number;  // Year of the largest shortfall
+}
+
+// --- CONSTANTS --- //
+
+export const PRESET_STRESS_SCENARIOS: StressScenario[] = [
+    {
+        id: 'crash-2008',
+        name: '2008-Style Crash',
+        startYear: 5,
+        duration: 1,
+        returns: { 'Local Equity': -0.4, 'Global Equity': -0.4, 'Alternative': -0.25, 'Fixed Income': 0.05 },
+        enabled: true,
+        custom: false,
+    },
+    {
+        id: 'lost-decade',
+        name: 'Lost Decade',
+        startYear: 1,
+        duration: 10,
+        returns: { 'Local Equity': 0, 'Global Equity': 0, 'Alternative': 0.01 },
+        enabled: false,
+        custom: false,
+    },
+    {
+        id: 'rate-shock',
+        name: 'Rate Shock',
+        startYear: 3,
+        duration: 1,
+        returns: { 'Fixed Income': -0.12, 'Local Equity': -0.15, 'Global Equity': -0.15 },
+        enabled: false,
+        custom: false,
+    },
+];
+
+// --- STRESS PATHS --- //
+
+/**
+ * Gross portfolio return of every projection year under a scenario, using each year's mix from the allocation
+ * schedule so a glide path is followed. A shocked class returns exactly `1 + shock`; the unshocked
+ * positions earn the per-year `m` of the return model at their weighted expected return, as in the engines.
+ * @param {Position[]} positions - The portfolio.
+ * @param {AllocationYear[]} schedule - Output of `allocationSchedule`.
+ * @param {StressScenario} scenario - The shock.
+ * @param {ReturnModel} returnModel - Return model of the projection.
+ * @returns {number[]} One gross return per year, e.g. 0.76 for -24%.
+ */
+export const stressedGrossReturns = (positions: Position[], schedule: AllocationYear[], scenario: StressScenario, returnModel: ReturnModel): number[] => {
+    return schedule.map(({ year, weights }) => {
+        const shocked = year >= scenario.startYear && year < scenario.startYear + scenario.duration;
+        let shockedGross = 0;
+        let expectedWeight = 0;
+        let expectedReturn = 0;
+        positions.forEach((pos, j) => {
+            const shock = shocked ? scenario.returns[pos.assetClass as AssetClass] : undefined;
+            if (shock === undefined) {
+                expectedWeight += weights[j];
+                expectedReturn += weights[j] * (pos.expectedReturn / 100);
+            } else {
+                shockedGross += weights[j] * (1 + shock);
+            }
+        });
+        // The unshocked part compounds like the engines' mix, so a year without a shock matches `deterministicCase`
+        if (expectedWeight <= 0) return shockedGross;
+        return shockedGross + expectedWeight * grossReturnMoments(expectedReturn / expectedWeight, 0, returnModel).m;
+    });
+};
+
+/**
+ * Year-end values of the projection when every year earns exactly its stressed gross return, with the same
+ * contributions, lump sums, withdrawals and fees as the engines. Without a shock this is `deterministicCase`.
+ * @param {ProjectionInput} params - The projection inputs.
+ * @param {number[]} yearGross - Output of `stressedGrossReturns`, the last one continuing.
+ * @returns {number[]} Nominal value at the end of each year.
+ */
+export const stressPath = (params: ProjectionInput, yearGross: number[]): number[] => {
+    const stepsPerYear = STEPS_PER_YEAR[params.timeStep];
+    const stepMForYear = (year: number) => {
+        const gross = yearGross[Math.min(year, yearGross.length) - 1] ?? grossReturnMoments(params.expectedReturn, 0, params.returnModel).m;
+        return Math.pow(Math.max(0, gross), 1 / stepsPerYear);
+    };
+    return deterministicPath(params, stepMForYear).map((d) => d.total);
+};
+
+/**
+ * How far a stressed path falls below the median path. Both series must be in the same terms.
+ * @param {number[]} values - Stressed value per year.
+ * @param {number[]} medians - Median value per year.
+ * @returns {StressShortfall} Final and worst shortfall; negative when the stressed path ends above the median.
+ */
+export const stressShortfall = (values: number[], medians: number[]): StressShortfall => {
+    const gaps = values.map((v, i) => (medians[i] ?? 0) - v);
+    const worstIndex = gaps.reduce((best, g, i) => (g > gaps[best] ? i : best), 0);
+    return {
+        final: gaps[gaps.length - 1] ?? 0,
+        worst: gaps[worstIndex] ?? 0,
+        worstYear: worstIndex + 1,
+    };
+};
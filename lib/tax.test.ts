@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { Position } from '@/components/Portfolio';
+import {
+    applyContributionSplit,
+    calculateIncomeTax,
+    calculateTax,
+    ContributionSuggestion,
+    DeductibleFundType,
+    suggestContributionSplit,
+    TaxInput,
+} from '@/lib/tax';
+
+const position = (id: string, fundType: Position['fundType'], investmentAmount: number): Position => ({
+    id, symbol: id, expectedReturn: 6, assetClass: 'Local Equity', investmentAmount, fundType,
+});
+
+const suggestion = (SSF: number, RMF: number, ThaiESG: number): ContributionSuggestion => ({
+    contributions: { SSF, RMF, ThaiESG }, total: SSF + RMF + ThaiESG, tax: 0, taxSaved: 0,
+});
+
+const income = (grossIncome: number, positions: Position[] = [], providentFundContribution = 0): TaxInput => ({
+    grossIncome, otherDeductions: 0, providentFundContribution, positions,
+});
+
+describe('calculateIncomeTax', () => {
+    it('charges each bracket up to its upper bound', () => {
+        const boundaries: [number, number][] = [
+            [150_000, 0],
+            [300_000, 7_500],
+            [500_000, 27_500],
+            [750_000, 65_000],
+            [1_000_000, 115_000],
+            [2_000_000, 365_000],
+            [5_000_000, 1_265_000],
+        ];
+        for (const [netIncome, tax] of boundaries) {
+            expect(calculateIncomeTax(netIncome)).toBeCloseTo(tax, 6);
+        }
+        expect(calculateIncomeTax(150_001)).toBeCloseTo(0.05, 6);
+        expect(calculateIncomeTax(5_000_001)).toBeCloseTo(1_265_000.35, 6);
+        expect(calculateIncomeTax(0)).toBe(0);
+    });
+});
+
+describe('calculateTax', () => {
+    it('caps each fund at 30% of income and its absolute maximum', () => {
+        // 30% of 1,000,000 binds RMF and ThaiESG; SSF hits its 200,000 maximum first
+        const atIncomeCap = (type: DeductibleFundType) =>
+            calculateTax(income(1_000_000, [position(type, type, 400_000)])).fundDeductions;
+        expect(atIncomeCap('SSF').SSF).toBe(200_000);
+        expect(atIncomeCap('RMF').RMF).toBe(300_000);
+        expect(atIncomeCap('ThaiESG').ThaiESG).toBe(300_000);
+
+        const atMaximum = (type: DeductibleFundType) =>
+            calculateTax(income(3_000_000, [position(type, type, 1_000_000)])).fundDeductions;
+        expect(atMaximum('SSF').SSF).toBe(200_000);
+        expect(atMaximum('RMF').RMF).toBe(500_000);
+        expect(atMaximum('ThaiESG').ThaiESG).toBe(300_000);
+    });
+
+    it('shares the 500,000 retirement cap between provident fund, SSF and RMF but not ThaiESG', () => {
+        const positions = [position('ssf', 'SSF', 200_000), position('rmf', 'RMF', 500_000), position('esg', 'ThaiESG', 300_000)];
+        expect(calculateTax(income(3_000_000, positions)).fundDeductions).toEqual({ SSF: 200_000, RMF: 300_000, ThaiESG: 300_000 });
+
+        const withProvidentFund = calculateTax(income(3_000_000, positions, 100_000));
+        expect(withProvidentFund.providentFundDeduction).toBe(100_000);
+        expect(withProvidentFund.fundDeductions).toEqual({ SSF: 200_000, RMF: 200_000, ThaiESG: 300_000 });
+        expect(withProvidentFund.positions.find((p) => p.symbol === 'rmf')!.allowedDeduction).toBe(200_000);
+    });
+});
+
+describe('suggestContributionSplit', () => {
+    it('fills ThaiESG, then SSF and RMF up to their caps', () => {
+        const { contributions, total } = suggestContributionSplit(income(3_000_000));
+        expect(contributions).toEqual({ SSF: 200_000, RMF: 300_000, ThaiESG: 300_000 });
+        expect(total).toBe(800_000);
+
+        const withProvidentFund = suggestContributionSplit(income(3_000_000, [], 300_000));
+        expect(withProvidentFund.contributions).toEqual({ SSF: 200_000, RMF: 0, ThaiESG: 300_000 });
+    });
+
+    it('stops once net income reaches the 0% bracket', () => {
+        // 600,000 less the 100,000 employment expense and 60,000 allowances leaves 440,000,
+        // so only 290,000 of deductions save any tax
+        const suggestion = suggestContributionSplit({ ...income(600_000), otherDeductions: 60_000 });
+        expect(suggestion.contributions).toEqual({ SSF: 110_000, RMF: 0, ThaiESG: 180_000 });
+        expect(suggestion.total).toBe(290_000);
+        expect(suggestion.tax).toBe(0);
+        expect(suggestion.taxSaved).toBeCloseTo(calculateIncomeTax(440_000), 6);
+
+        expect(suggestContributionSplit({ ...income(300_000), otherDeductions: 60_000 }).total).toBe(0);
+    });
+
+    it('spends no more than the budget', () => {
+        const { contributions, total } = suggestContributionSplit(income(3_000_000), 350_000);
+        expect(contributions).toEqual({ SSF: 50_000, RMF: 0, ThaiESG: 300_000 });
+        expect(total).toBe(350_000);
+    });
+});
+
+describe('applyContributionSplit', () => {
+    const defaults = { expectedReturn: 6, assetClass: 'Local Equity' };
+
+    it('scales held positions pro rata and adds placeholders for missing types', () => {
+        const positions = [position('general', 'General', 50_000), position('ssf-a', 'SSF', 30_000), position('ssf-b', 'SSF', 10_000)];
+        const updated = applyContributionSplit(positions, suggestion(80_000, 0, 20_000), defaults);
+        expect(updated.map((p) => [p.fundType, p.investmentAmount])).toEqual([
+            ['General', 50_000], ['SSF', 60_000], ['SSF', 20_000], ['ThaiESG', 20_000],
+        ]);
+    });
+
+    it('keeps positions whose type is suggested nothing at zero', () => {
+        const positions = [position('ssf', 'SSF', 30_000), position('rmf', 'RMF', 40_000), position('esg', 'ThaiESG', 0)];
+        const updated = applyContributionSplit(positions, suggestion(0, 0, 0), defaults);
+        expect(updated.map((p) => [p.id, p.investmentAmount])).toEqual([['ssf', 0], ['rmf', 0], ['esg', 0]]);
+    });
+
+    it('fills existing zero positions instead of adding a placeholder', () => {
+        const positions = [position('ssf-a', 'SSF', 0), position('ssf-b', 'SSF', 0)];
+        const updated = applyContributionSplit(positions, suggestion(50_000, 0, 0), defaults);
+        expect(updated.map((p) => [p.id, p.investmentAmount])).toEqual([['ssf-a', 25_000], ['ssf-b', 25_000]]);
+    });
+});
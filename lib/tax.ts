@@ -0,0 +1,312 @@
+import type { Position } from '@/components/Portfolio';
+import { createPositionId } from '@/lib/positions';
+
+// --- TYPE DEFINITIONS --- //
+
+/**
+ * Tax treatment of a fund position.
+ */
+export type FundType = 'SSF' | 'RMF' | 'ThaiESG' | 'General';
+
+/**
+ * Tax-advantaged fund types that reduce assessable income.
+ */
+export type DeductibleFundType = Exclude<FundType, 'General'>;
+
+interface TaxBracket {
+    upTo: number;   // Upper bound of net income for this bracket (THB)
+    rate: number;   // Marginal rate (e.g., 0.05 for 5%)
+}
+
+interface DeductionLimit {
+    percentOfIncome: number; // Cap as a share of assessable income
+    max: number;             // Absolute cap in THB
+}
+
+/**
+ * Inputs for the annual personal income tax calculation.
+ */
+export interface TaxInput {
+    grossIncome: number;               // Annual employment income in THB
+    otherDeductions: number;           // Personal/family allowances, insurance, etc. in THB
+    providentFundContribution: number; // Employee provident fund contribution in THB
+    positions: Position[];             // Annual contributions per fund
+}
+
+/**
+ * Tax effect of a single position.
+ */
+export interface PositionTaxBreakdown {
+    symbol: string;
+    fundType: FundType;
+    contribution: number;      // Annual contribution in THB
+    allowedDeduction: number;  // Part of the contribution that survives the caps
+    taxSaved: number;          // Share of the fund tax saving attributed to this position
+}
+
+/**
+ * Result of the annual personal income tax calculation.
+ */
+export interface TaxResult {
+    employmentExpense: number;
+    providentFundDeduction: number;
+    fundDeductions: Record<DeductibleFundType, number>;
+    taxableIncome: number;       // Net income after all deductions
+    taxWithoutFunds: number;     // Tax if no SSF/RMF/ThaiESG were bought
+    tax: number;                 // Tax with the current positions
+    taxSaved: number;            // taxWithoutFunds - tax
+    positions: PositionTaxBreakdown[];
+}
+
+/**
+ * Suggested annual contributions per fund type.
+ */
+export interface ContributionSuggestion {
+    contributions: Record<DeductibleFundType, number>;
+    total: number;
+    tax: number;
+    taxSaved: number;           // Versus buying no tax-advantaged funds
+}
+
+// --- TAX RULES --- //
+
+/**
+ * Thai personal income tax brackets on net income.
+ */
+export const TAX_BRACKETS: TaxBracket[] = [
+    { upTo: 150_000, rate: 0 },
+    { upTo: 300_000, rate: 0.05 },
+    { upTo: 500_000, rate: 0.10 },
+    { upTo: 750_000, rate: 0.15 },
+    { upTo: 1_000_000, rate: 0.20 },
+    { upTo: 2_000_000, rate: 0.25 },
+    { upTo: 5_000_000, rate: 0.30 },
+    { upTo: Infinity, rate: 0.35 },
+];
+
+/**
+ * Employment expense deduction: 50% of salary, capped at 100,000 THB.
+ */
+export const EMPLOYMENT_EXPENSE: DeductionLimit = { percentOfIncome: 0.5, max: 100_000 };
+
+/**
+ * Per-fund deduction caps.
+ */
+export const FUND_DEDUCTION_LIMITS: Record<DeductibleFundType, DeductionLimit> = {
+    SSF: { percentOfIncome: 0.30, max: 200_000 },
+    RMF: { percentOfIncome: 0.30, max: 500_000 },
+    ThaiESG: { percentOfIncome: 0.30, max: 300_000 },
+};
+
+export const PROVIDENT_FUND_LIMIT: DeductionLimit = { percentOfIncome: 0.15, max: 500_000 };
+
+/**
+ * SSF, RMF and provident fund share one combined retirement cap. ThaiESG sits outside it.
+ */
+export const RETIREMENT_COMBINED_MAX = 500_000;
+
+export const DEDUCTIBLE_FUND_TYPES: DeductibleFundType[] = ['SSF', 'RMF', 'ThaiESG'];
+export const FUND_TYPES: FundType[] = [...DEDUCTIBLE_FUND_TYPES, 'General'];
+
+// --- HELPERS --- //
+
+const capOf = (limit: DeductionLimit, income: number) => Math.max(0, Math.min(limit.percentOfIncome * income, limit.max));
+
+/**
+ * Infers the tax treatment of a fund from its symbol, e.g. `KKP GNP-H-SSF` is an SSF.
+ * @param {string} symbol - Fund symbol.
+ * @returns {FundType} The inferred fund type, 'General' when no suffix matches.
+ */
+export const inferFundType = (symbol: string): FundType => {
+    const s = symbol.toUpperCase();
+    if (/THAIESG|TESG/.test(s)) return 'ThaiESG';
+    if (/RMF/.test(s)) return 'RMF';
+    if (/SSF/.test(s)) return 'SSF';
+    return 'General';
+};
+
+/**
+ * Tax treatment of a position: its `fundType` when set, otherwise inferred from the symbol.
+ * @param {Position} position - The position.
+ * @returns {FundType} The fund type.
+ */
+export const positionFundType = (position: Position): FundType => position.fundType ?? inferFundType(position.symbol);
+
+/**
+ * Progressive tax on net income.
+ * @param {number} netIncome - Income after expenses and deductions.
+ * @returns {number} Tax due in THB.
+ */
+export const calculateIncomeTax = (netIncome: number): number => {
+    let tax = 0;
+    let lower = 0;
+    for (const { upTo, rate } of TAX_BRACKETS) {
+        if (netIncome <= lower) break;
+        tax += (Math.min(netIncome, upTo) - lower) * rate;
+        lower = upTo;
+    }
+    return tax;
+};
+
+/**
+ * Applies the per-fund and combined retirement caps to requested fund amounts.
+ * The provident fund claims the combined retirement room first, then SSF, then RMF.
+ */
+const allowedFundDeductions = (
+    requested: Record<DeductibleFundType, number>,
+    grossIncome: number,
+    providentFundDeduction: number,
+): Record<DeductibleFundType, number> => {
+    let retirementRoom = Math.max(0, RETIREMENT_COMBINED_MAX - providentFundDeduction);
+    const ssf = Math.min(requested.SSF, capOf(FUND_DEDUCTION_LIMITS.SSF, grossIncome), retirementRoom);
+    retirementRoom -= ssf;
+    const rmf = Math.min(requested.RMF, capOf(FUND_DEDUCTION_LIMITS.RMF, grossIncome), retirementRoom);
+    const esg = Math.min(requested.ThaiESG, capOf(FUND_DEDUCTION_LIMITS.ThaiESG, grossIncome));
+    return { SSF: Math.max(0, ssf), RMF: Math.max(0, rmf), ThaiESG: Math.max(0, esg) };
+};
+
+/**
+ * Net income before any SSF/RMF/ThaiESG deduction.
+ */
+const incomeBeforeFunds = (input: TaxInput) => {
+    const employmentExpense = capOf(EMPLOYMENT_EXPENSE, input.grossIncome);
+    const providentFundDeduction = Math.min(input.providentFundContribution, capOf(PROVIDENT_FUND_LIMIT, input.grossIncome));
+    const netIncome = Math.max(0, input.grossIncome - employmentExpense - input.otherDeductions - providentFundDeduction);
+    return { employmentExpense, providentFundDeduction, netIncome };
+};
+
+// --- CORE CALCULATION LOGIC --- //
+
+/**
+ * Calculates annual income tax and the saving contributed by each tax-advantaged position.
+ * The fund saving is attributed to positions pro rata to their allowed deduction.
+ *
+ * @param {TaxInput} input - Income, deductions and positions.
+ * @returns {TaxResult} Tax breakdown.
+ */
+export const calculateTax = (input: TaxInput): TaxResult => {
+    const { employmentExpense, providentFundDeduction, netIncome } = incomeBeforeFunds(input);
+
+    const requested: Record<DeductibleFundType, number> = { SSF: 0, RMF: 0, ThaiESG: 0 };
+    for (const pos of input.positions) {
+        const type = positionFundType(pos);
+        if (type !== 'General') requested[type] += pos.investmentAmount;
+    }
+    const fundDeductions = allowedFundDeductions(requested, input.grossIncome, providentFundDeduction);
+    const totalFundDeduction = fundDeductions.SSF + fundDeductions.RMF + fundDeductions.ThaiESG;
+
+    const taxableIncome = Math.max(0, netIncome - totalFundDeduction);
+    const taxWithoutFunds = calculateIncomeTax(netIncome);
+    const tax = calculateIncomeTax(taxableIncome);
+    const taxSaved = taxWithoutFunds - tax;
+
+    const positions = input.positions.map((pos): PositionTaxBreakdown => {
+        const fundType = positionFundType(pos);
+        const allowedDeduction = fundType === 'General' || requested[fundType] === 0
+            ? 0
+            : fundDeductions[fundType] * pos.investmentAmount / requested[fundType];
+        return {
+            symbol: pos.symbol,
+            fundType,
+            contribution: pos.investmentAmount,
+            allowedDeduction,
+            taxSaved: totalFundDeduction === 0 ? 0 : taxSaved * allowedDeduction / totalFundDeduction,
+        };
+    });
+
+    return {
+        employmentExpense,
+        providentFundDeduction,
+        fundDeductions,
+        taxableIncome,
+        taxWithoutFunds,
+        tax,
+        taxSaved,
+        positions,
+    };
+};
+
+/**
+ * Suggests the SSF/RMF/ThaiESG split that maximizes the tax saving.
+ * The saving depends only on the total deduction, so the caps are filled greedily
+ * (ThaiESG first since it has its own cap, then SSF and RMF within the combined cap),
+ * stopping once net income reaches the 0% bracket where extra deductions save nothing.
+ *
+ * @param {TaxInput} input - Income and deductions; positions are ignored.
+ * @param {number} [budget] - Optional annual amount available for tax-advantaged funds.
+ * @returns {ContributionSuggestion} Suggested contributions and resulting tax.
+ */
+export const suggestContributionSplit = (input: TaxInput, budget: number = Infinity): ContributionSuggestion => {
+    const { providentFundDeduction, netIncome } = incomeBeforeFunds(input);
+
+    let remaining = Math.max(0, Math.min(budget, netIncome - TAX_BRACKETS[0].upTo));
+    const take = (cap: number) => {
+        const amount = Math.max(0, Math.min(cap, remaining));
+        remaining -= amount;
+        return amount;
+    };
+
+    const retirementRoom = Math.max(0, RETIREMENT_COMBINED_MAX - providentFundDeduction);
+    const ThaiESG = take(capOf(FUND_DEDUCTION_LIMITS.ThaiESG, input.grossIncome));
+    const SSF = take(Math.min(capOf(FUND_DEDUCTION_LIMITS.SSF, input.grossIncome), retirementRoom));
+    const RMF = take(Math.min(capOf(FUND_DEDUCTION_LIMITS.RMF, input.grossIncome), retirementRoom - SSF));
+
+    const total = SSF + RMF + ThaiESG;
+    const tax = calculateIncomeTax(netIncome - total);
+
+    return {
+        contributions: { SSF, RMF, ThaiESG },
+        total,
+        tax,
+        taxSaved: calculateIncomeTax(netIncome) - tax,
+    };
+};
+
+/**
+ * Rewrites the portfolio so each tax-advantaged fund type receives its suggested amount.
+ * Existing positions of a type are scaled pro rata (split evenly when they are all at 0), down to 0
+ * when nothing is suggested for it; a placeholder position is added for types the portfolio has no
+ * position of. General positions are left untouched and no position is removed.
+ *
+ * @param {Position[]} positions - Current positions.
+ * @param {ContributionSuggestion} suggestion - Output of `suggestContributionSplit`.
+ * @param {Omit<Position, 'id' | 'symbol' | 'investmentAmount'>} defaults - Asset class and return for new positions.
+ * @returns {Position[]} The updated positions.
+ */
+export const applyContributionSplit = (
+    positions: Position[],
+    suggestion: ContributionSuggestion,
+    defaults: Omit<Position, 'id' | 'symbol' | 'investmentAmount'>,
+): Position[] => {
+    const updated: Position[] = [];
+    const held: Record<DeductibleFundType, { count: number; amount: number }> = {
+        SSF: { count: 0, amount: 0 },
+        RMF: { count: 0, amount: 0 },
+        ThaiESG: { count: 0, amount: 0 },
+    };
+    for (const pos of positions) {
+        const type = positionFundType(pos);
+        if (type === 'General') continue;
+        held[type].count += 1;
+        held[type].amount += pos.investmentAmount;
+    }
+
+    for (const pos of positions) {
+        const type = positionFundType(pos);
+        if (type === 'General') {
+            updated.push(pos);
+            continue;
+        }
+        const { count, amount } = held[type];
+        const share = amount > 0 ? pos.investmentAmount / amount : 1 / count;
+        updated.push({ ...pos, investmentAmount: Math.round(suggestion.contributions[type] * share) });
+    }
+
+    for (const type of DEDUCTIBLE_FUND_TYPES) {
+        if (held[type].count === 0 && suggestion.contributions[type] > 0) {
+            updated.push({ ...defaults, id: createPositionId(), symbol: `${type} (suggested)`, fundType: type, investmentAmount: Math.round(suggestion.contributions[type]) });
+        }
+    }
+
+    return updated;
+};